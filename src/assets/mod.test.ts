@@ -0,0 +1,170 @@
+import { assertEquals } from "@std/assert";
+import * as path from "@std/path";
+import { copy } from "@std/fs";
+
+// The test scripts live in temp dirs, so point `deno run` at our import map
+const denoConfigPath = path.fromFileUrl(
+  new URL("../../deno.json", import.meta.url),
+);
+
+// Helper function to compile a Deno script with the given included paths and
+// return the path to the executable
+async function compileDenoScript(
+  scriptPath: string,
+  include: string[],
+): Promise<string> {
+  const tempDir = await Deno.makeTempDir();
+  const exePath = path.join(tempDir, "compiled_test_app");
+
+  const compileProcess = new Deno.Command(Deno.execPath(), {
+    args: [
+      "compile",
+      "-A",
+      ...include.flatMap((includePath) => ["--include", includePath]),
+      "-o",
+      exePath,
+      scriptPath,
+    ],
+    stdin: "null",
+    stdout: "null",
+    stderr: "inherit", // Show compilation errors
+  });
+
+  const { success } = await compileProcess.spawn().status;
+  if (!success) {
+    throw new Error(`Compilation failed for ${scriptPath}`);
+  }
+  return exePath;
+}
+
+// Helper function to write a test script next to a copy of the module and the
+// given asset files, returning the temp dir, the script path and the assets dir
+async function createTestApp(
+  testScriptContent: string,
+  assets: Record<string, string>,
+): Promise<{ tempDir: string; testScriptPath: string; assetsDir: string }> {
+  const tempDir = await Deno.makeTempDir();
+  await copy(
+    path.fromFileUrl(new URL("../", import.meta.url)),
+    path.join(tempDir, "src"),
+  );
+  const testScriptPath = path.join(tempDir, "src", "assets", "test_app.ts");
+  await Deno.writeTextFile(testScriptPath, testScriptContent);
+  const assetsDir = path.join(tempDir, "src", "assets", "data");
+  for (const [assetPath, content] of Object.entries(assets)) {
+    const filePath = path.join(assetsDir, assetPath);
+    await Deno.mkdir(path.dirname(filePath), { recursive: true });
+    await Deno.writeTextFile(filePath, content);
+  }
+  return { tempDir, testScriptPath, assetsDir };
+}
+
+// Helper function to run a command and assert that it succeeded
+async function runTestApp(command: string, args: string[], cwd: string) {
+  const { success, stdout, stderr } = await new Deno.Command(command, {
+    cwd,
+    args,
+    stdin: "null",
+    stdout: "piped",
+    stderr: "piped",
+  }).output();
+
+  const decoder = new TextDecoder();
+  assertEquals(
+    success,
+    true,
+    `Test script failed:\n ${decoder.decode(stderr)}\n${
+      decoder.decode(stdout)
+    }`,
+  );
+}
+
+Deno.test("Assets resolve the same under deno run and when compiled", async () => {
+  const testScriptContent = `
+    import {
+      assetExists,
+      assetStream,
+      listAssets,
+      readAsset,
+      readAssetText,
+    } from "./mod.ts";
+
+    function check(actual: unknown, expected: unknown) {
+      if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        throw new Error("expected " + JSON.stringify(expected) + ", got " + JSON.stringify(actual));
+      }
+    }
+
+    check(await listAssets("data"), ["data/hello.txt", "data/nested/config.json"]);
+    check(await readAssetText("data/hello.txt"), "hello");
+    check(await readAssetText("./data\\\\hello.txt"), "hello");
+    check(new TextDecoder().decode(await readAsset("data/nested/config.json")), '{"a":1}');
+    check(await new Response(await assetStream("data/hello.txt")).text(), "hello");
+    check(await assetExists("data/hello.txt"), true);
+    check(await assetExists("data/nested"), false);
+    check(await assetExists("data/missing.txt"), false);
+    // Relative to another base URL
+    check(
+      await readAssetText("hello.txt", { base: new URL("./data/", import.meta.url) }),
+      "hello",
+    );
+
+    try {
+      await readAsset("data/missing.txt");
+      throw new Error("missing asset was read");
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      // Only the directory of the missing asset is listed, not its subdirectories
+      if (!error.message.includes('Assets in "data/": data/hello.txt, data/nested/')) {
+        throw new Error("available assets not listed: " + error.message);
+      }
+      if (error.message.includes("mod.ts") || error.message.includes("config.json")) {
+        throw new Error("assets outside its directory listed: " + error.message);
+      }
+    }
+    try {
+      await readAsset("data/missing/config.json");
+      throw new Error("missing asset was read");
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      // Falls back to the nearest existing parent, saying so
+      if (
+        !error.message.includes('Directory "data/missing/" doesn\\'t exist') ||
+        !error.message.includes("data/hello.txt")
+      ) {
+        throw new Error("parent assets not listed: " + error.message);
+      }
+    }
+    try {
+      await listAssets("data/missing");
+      throw new Error("missing asset directory was listed");
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      if (!error.message.includes('Assets in "data/": data/hello.txt')) {
+        throw new Error("parent assets not listed: " + error.message);
+      }
+    }
+    try {
+      await readAssetText(Deno.build.os === "windows" ? "C:\\\\data" : "/data");
+      throw new Error("absolute path was read");
+    } catch (error) {
+      if (!(error instanceof TypeError)) throw error;
+    }
+  `;
+
+  const { tempDir, testScriptPath, assetsDir } = await createTestApp(
+    testScriptContent,
+    { "hello.txt": "hello", "nested/config.json": '{"a":1}' },
+  );
+  // Both run from another working directory than the script's
+  await runTestApp(
+    Deno.execPath(),
+    ["run", "-A", "--config", denoConfigPath, testScriptPath],
+    tempDir,
+  );
+  const executablePath = await compileDenoScript(testScriptPath, [assetsDir]);
+  await runTestApp(executablePath, [], tempDir);
+
+  await Deno.remove(tempDir, { recursive: true });
+  await Deno.remove(path.dirname(executablePath), { recursive: true });
+});
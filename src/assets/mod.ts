@@ -0,0 +1,249 @@
+/**
+ * Embedded assets for Deno standalone executables
+ *
+ * This module reads files bundled into a compiled executable with `deno compile --include`.
+ * Asset paths are resolved against the directory of the main module, which is the source
+ * directory under `deno run` and its embedded copy in the compiled executable, so the same
+ * code works in both modes regardless of the working directory.
+ *
+ * ## Limitations
+ *
+ * - Assets must be included when compiling (`deno compile --include assets/ main.ts`), only
+ *   modules are embedded automatically.
+ * - Absolute paths are rejected, as they differ between `deno run` and the compiled executable.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * import { readAssetText } from "jsr:@sigma/deno-compile-extra/assets";
+ *
+ * // assets/help.txt next to main.ts, compiled with `--include assets/`
+ * console.log(await readAssetText("assets/help.txt"));
+ * ```
+ *
+ * @module
+ */
+import {
+  dirname,
+  fromFileUrl,
+  isAbsolute,
+  join,
+  relative,
+  SEPARATOR,
+} from "@std/path";
+import { exists, walk } from "@std/fs";
+
+/** Options for the asset functions. */
+export interface AssetOptions {
+  /**
+   * URL relative asset paths are resolved against, like `new URL(path, base)`.
+   * Pass `import.meta.url` to resolve them next to the calling module.
+   *
+   * Defaults to `Deno.mainModule`, so they are resolved next to the main
+   * module.
+   */
+  base?: string | URL;
+}
+
+// How many available assets a not found error lists at most
+const MAX_LISTED_ASSETS = 20;
+
+// URL of the asset at path, rejecting paths that only work in one mode
+function assetUrl(path: string, options: AssetOptions): URL {
+  if (isAbsolute(path) || /^[a-z][a-z\d+.-]*:/i.test(path)) {
+    throw new TypeError(
+      `Asset paths must be relative, got "${path}"`,
+    );
+  }
+  return new URL(path.replaceAll("\\", "/"), options.base ?? Deno.mainModule);
+}
+
+// Directory asset paths are listed relative to
+function baseDir(options: AssetOptions): string {
+  return fromFileUrl(new URL(".", options.base ?? Deno.mainModule));
+}
+
+// Path of a file or directory relative to the base dir, as the asset
+// functions take it
+function assetPath(root: string, filePath: string): string {
+  return relative(root, filePath).replaceAll(SEPARATOR, "/");
+}
+
+// Describes the entries of dir, or of its nearest existing parent under the
+// base dir, for a not found error. Only that one directory is read, so a miss
+// doesn't walk a whole project.
+async function describeAssetsNear(
+  dir: string,
+  options: AssetOptions,
+): Promise<string> {
+  const root = baseDir(options);
+  const wanted = dir;
+  while (!(await exists(dir, { isDirectory: true }))) {
+    const parent = dirname(dir);
+    if (relative(root, dir).startsWith("..") || parent === dir) {
+      return "No assets are available, were they included with `deno compile --include`?";
+    }
+    dir = parent;
+  }
+
+  const entries: string[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    const path = assetPath(root, join(dir, entry.name));
+    if (entry.isFile) entries.push(path);
+    else if (entry.isDirectory) entries.push(`${path}/`);
+  }
+  entries.sort();
+
+  const label = `"${assetPath(root, dir) || "."}/"`;
+  const missing = dir === wanted
+    ? ""
+    : `Directory "${assetPath(root, wanted)}/" doesn't exist. `;
+  if (entries.length === 0) {
+    return `${missing}No assets in ${label}, were they included with \`deno compile --include\`?`;
+  }
+  const listed = entries.slice(0, MAX_LISTED_ASSETS).join(", ");
+  const more = entries.length > MAX_LISTED_ASSETS
+    ? ` and ${entries.length - MAX_LISTED_ASSETS} more`
+    : "";
+  return `${missing}Assets in ${label}: ${listed}${more}`;
+}
+
+// Turns the NotFound error of the asset or asset directory at path into one
+// describing the assets near it
+async function assetNotFound(
+  kind: "Asset" | "Asset directory",
+  path: string,
+  filePath: string,
+  options: AssetOptions,
+  cause?: Deno.errors.NotFound,
+): Promise<Deno.errors.NotFound> {
+  // The parent of a missing directory, which names it among its entries
+  const dir = dirname(filePath.replace(/[\\/]+$/, ""));
+  const near = await describeAssetsNear(dir, options).catch(() => "");
+  return new Deno.errors.NotFound(
+    `${kind} "${path}" not found in ${baseDir(options)}. ${near}`.trimEnd(),
+    { cause },
+  );
+}
+
+// Runs fn on the file of the asset, turning NotFound into an error listing the
+// assets near it
+async function withAsset<T>(
+  path: string,
+  options: AssetOptions,
+  fn: (filePath: string) => Promise<T>,
+): Promise<T> {
+  const filePath = fromFileUrl(assetUrl(path, options));
+  try {
+    return await fn(filePath);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    throw await assetNotFound("Asset", path, filePath, options, error);
+  }
+}
+
+/**
+ * Reads an embedded asset.
+ *
+ * @throws {Deno.errors.NotFound} When the asset doesn't exist, listing the
+ * assets in its directory.
+ *
+ * @example
+ * ```ts
+ * import { readAsset } from "jsr:@sigma/deno-compile-extra/assets";
+ *
+ * const icon = await readAsset("assets/icon.png");
+ * ```
+ */
+export function readAsset(
+  path: string,
+  options: AssetOptions = {},
+): Promise<Uint8Array> {
+  return withAsset(path, options, (filePath) => Deno.readFile(filePath));
+}
+
+/**
+ * Reads an embedded asset as UTF-8 text.
+ *
+ * @throws {Deno.errors.NotFound} When the asset doesn't exist, listing the
+ * assets in its directory.
+ */
+export function readAssetText(
+  path: string,
+  options: AssetOptions = {},
+): Promise<string> {
+  return withAsset(path, options, (filePath) => Deno.readTextFile(filePath));
+}
+
+/**
+ * Opens an embedded asset as a stream, e.g. to serve it without reading it
+ * into memory.
+ *
+ * @throws {Deno.errors.NotFound} When the asset doesn't exist, listing the
+ * assets in its directory.
+ *
+ * @example
+ * ```ts
+ * import { assetStream } from "jsr:@sigma/deno-compile-extra/assets";
+ *
+ * Deno.serve(async () => new Response(await assetStream("assets/index.html")));
+ * ```
+ */
+export function assetStream(
+  path: string,
+  options: AssetOptions = {},
+): Promise<ReadableStream<Uint8Array>> {
+  return withAsset(
+    path,
+    options,
+    async (filePath) => (await Deno.open(filePath)).readable,
+  );
+}
+
+/** Returns whether an embedded asset file exists. */
+export async function assetExists(
+  path: string,
+  options: AssetOptions = {},
+): Promise<boolean> {
+  try {
+    return (await Deno.stat(fromFileUrl(assetUrl(path, options)))).isFile;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return false;
+    throw error;
+  }
+}
+
+/**
+ * Lists the embedded asset files in a directory and its subdirectories, as
+ * sorted paths relative to the base that can be passed to the other asset
+ * functions.
+ *
+ * @throws {Deno.errors.NotFound} When the directory doesn't exist, listing the
+ * assets in its parent.
+ *
+ * @example
+ * ```ts
+ * import { listAssets, readAssetText } from "jsr:@sigma/deno-compile-extra/assets";
+ *
+ * for (const path of await listAssets("assets/templates")) {
+ *   console.log(path, (await readAssetText(path)).length);
+ * }
+ * ```
+ */
+export async function listAssets(
+  dir = ".",
+  options: AssetOptions = {},
+): Promise<string[]> {
+  const root = baseDir(options);
+  const dirPath = fromFileUrl(
+    assetUrl(dir.endsWith("/") ? dir : `${dir}/`, options),
+  );
+  if (!(await exists(dirPath, { isDirectory: true }))) {
+    throw await assetNotFound("Asset directory", dir, dirPath, options);
+  }
+  const paths: string[] = [];
+  for await (const entry of walk(dirPath, { includeDirs: false })) {
+    paths.push(assetPath(root, entry.path));
+  }
+  return paths.sort();
+}
@@ -0,0 +1,187 @@
+/**
+ * Copies the data the polyfills stored as JSON files into another backend.
+ *
+ * @module
+ */
+import { join } from "@std/path";
+import {
+  CACHE_NAMES_KEY,
+  cacheDir,
+  createStorageId,
+  getAppId,
+  parseJson,
+  storageDir,
+  writeStream,
+} from "../utils.ts";
+import type { StorageBackend } from "./mod.ts";
+
+/** Options for {@linkcode importJsonFiles}. */
+export interface ImportJsonFilesOptions {
+  /** Backend to copy the localStorage data into. */
+  localStorage?: StorageBackend;
+  /** Backend to copy the caches into. */
+  caches?: StorageBackend;
+  /**
+   * App ID the polyfills were set up with. Defaults to the
+   * `DENO_COMPILE_EXTRA_APP_ID` environment variable, like the polyfills.
+   */
+  appId?: string;
+}
+
+/** What {@linkcode importJsonFiles} copied. */
+export interface ImportJsonFilesResult {
+  /** Whether the localStorage data was copied. */
+  localStorage: boolean;
+  /** Names of the copied caches. */
+  caches: string[];
+}
+
+// Returns the content of the first of paths that exists
+async function readFirstFile(
+  paths: string[],
+): Promise<Uint8Array | undefined> {
+  for (const path of paths) {
+    try {
+      return await Deno.readFile(path);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+  return undefined;
+}
+
+// Names of the files directly in dir, without lock and temp files
+async function listFiles(dir: string): Promise<string[]> {
+  const names: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      if (
+        entry.isFile && !entry.name.endsWith(".lock") &&
+        !entry.name.endsWith(".tmp") && !entry.name.startsWith(".tmp-")
+      ) {
+        names.push(entry.name);
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return names;
+}
+
+async function importLocalStorage(
+  backend: StorageBackend,
+  appId: string | undefined,
+): Promise<boolean> {
+  const legacyStorageId = await createStorageId(
+    new URL("../local-storage-polyfill/mod.ts", import.meta.url).href,
+  );
+  const storageId = appId ?? legacyStorageId;
+  const key = `${storageId}.json`;
+  if (await backend.get(key) !== undefined) return false;
+
+  // The polyfill stored the data in the cache dir before moving to the data
+  // dir, and under the default ID before an app ID was set
+  const dirs = [join(await storageDir("data"), "deno-localStorage")];
+  const cacheDirPath = cacheDir();
+  if (cacheDirPath) dirs.push(join(cacheDirPath, "deno-localStorage"));
+  const data = await readFirstFile(
+    dirs.flatMap((dir) =>
+      [...new Set([storageId, legacyStorageId])].map((id) =>
+        join(dir, `${id}.json`)
+      )
+    ),
+  );
+  if (data === undefined) return false;
+  await backend.set(key, data);
+  return true;
+}
+
+async function importCaches(
+  backend: StorageBackend,
+  appId: string | undefined,
+): Promise<string[]> {
+  const apiDir = join(await storageDir("cache"), "deno-cache-api");
+  const legacyStorageId = await createStorageId(
+    new URL("../caches-polyfill/mod.ts", import.meta.url).href,
+  );
+  let root = join(apiDir, appId ?? legacyStorageId);
+  if (appId !== undefined && (await listFiles(root)).length === 0) {
+    root = join(apiDir, legacyStorageId);
+  }
+
+  // Caches are stored under a hash of their name, see the caches polyfill.
+  // The names go first, so the backend knows them once the caches are there.
+  const names = parseJson<Record<string, string>>(
+    await readFirstFile([join(root, CACHE_NAMES_KEY)]),
+  ) ?? {};
+  if (Object.keys(names).length > 0) {
+    await backend.update(
+      CACHE_NAMES_KEY,
+      (bytes) =>
+        new TextEncoder().encode(JSON.stringify({
+          ...names,
+          ...parseJson<Record<string, string>>(bytes),
+        })),
+    );
+  }
+
+  const imported: string[] = [];
+  for (const fileName of await listFiles(root)) {
+    if (!fileName.endsWith(".json")) continue;
+    const storageName = fileName.slice(0, -".json".length);
+    if (await backend.get(fileName) !== undefined) continue;
+    // Copy the bodies first, so the index never points at missing ones
+    const blobsDir = join(root, `${storageName}.blobs`);
+    for (const blobName of await listFiles(blobsDir)) {
+      const file = await Deno.open(join(blobsDir, blobName));
+      await writeStream(
+        backend,
+        `${storageName}.blobs/${blobName}`,
+        file.readable,
+      );
+    }
+    await backend.set(fileName, await Deno.readFile(join(root, fileName)));
+    imported.push(
+      Object.hasOwn(names, storageName) ? names[storageName] : storageName,
+    );
+  }
+  return imported.sort();
+}
+
+/**
+ * Copies the localStorage data and caches of this app, as stored by the
+ * default JSON file backend, into other backends. Run it once before setting
+ * up the polyfills with the new backends.
+ *
+ * Data the target backend already has is kept, so running it again only
+ * copies what is missing. The JSON files are left in place.
+ *
+ * @example
+ * ```ts
+ * import { importJsonFiles, KvBackend } from "jsr:@sigma/deno-compile-extra/backends";
+ * import { setupLocalStorage } from "jsr:@sigma/deno-compile-extra/localStoragePolyfill";
+ * import { setupCachesPolyfill } from "jsr:@sigma/deno-compile-extra/cachesPolyfill";
+ *
+ * const kv = await Deno.openKv("./app-data.sqlite");
+ * const localStorageBackend = new KvBackend(kv, ["localStorage"]);
+ * const cachesBackend = new KvBackend(kv, ["caches"]);
+ *
+ * await importJsonFiles({
+ *   localStorage: localStorageBackend,
+ *   caches: cachesBackend,
+ * });
+ * await setupLocalStorage({ backend: localStorageBackend });
+ * await setupCachesPolyfill({ backend: cachesBackend });
+ * ```
+ */
+export async function importJsonFiles(
+  options: ImportJsonFilesOptions,
+): Promise<ImportJsonFilesResult> {
+  const appId = getAppId(options.appId);
+  return {
+    localStorage: options.localStorage
+      ? await importLocalStorage(options.localStorage, appId)
+      : false,
+    caches: options.caches ? await importCaches(options.caches, appId) : [],
+  };
+}
@@ -0,0 +1,312 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import * as path from "@std/path";
+import {
+  EncryptedBackend,
+  importJsonFiles,
+  JsonFileBackend,
+  KvBackend,
+  MemoryBackend,
+  type StorageBackend,
+} from "./mod.ts";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Runs the checks every backend has to pass
+async function testBackend(backend: StorageBackend): Promise<void> {
+  assertEquals(await backend.get("missing.json"), undefined);
+
+  await backend.set("a.json", encoder.encode("1"));
+  await backend.set("dir/b", encoder.encode("2"));
+  await backend.set("dir/sub/c", encoder.encode("3"));
+  assertEquals(decoder.decode(await backend.get("a.json")), "1");
+  assertEquals(decoder.decode(await backend.get("dir/b")), "2");
+
+  assertEquals((await backend.list("")).sort(), ["a.json"]);
+  assertEquals((await backend.list("dir/")).sort(), ["dir/b"]);
+  assertEquals(await backend.list("missing/"), []);
+
+  await backend.delete("dir/b");
+  await backend.delete("dir/b");
+  assertEquals(await backend.get("dir/b"), undefined);
+
+  // Concurrent updates of the same key don't lose writes
+  await backend.set("counter", encoder.encode("0"));
+  await Promise.all(
+    Array.from(
+      { length: 10 },
+      () =>
+        backend.update("counter", async (value) => {
+          const count = Number(decoder.decode(value));
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          return encoder.encode(String(count + 1));
+        }),
+    ),
+  );
+  assertEquals(decoder.decode(await backend.get("counter")), "10");
+
+  // undefined leaves the value as it is, null deletes it
+  await backend.update("counter", () => undefined);
+  assertEquals(decoder.decode(await backend.get("counter")), "10");
+  await backend.update("counter", () => null);
+  assertEquals(await backend.get("counter"), undefined);
+
+  // A failing update releases the key
+  await assertRejects(
+    () =>
+      backend.update("a.json", () => {
+        throw new Error("boom");
+      }),
+    Error,
+    "boom",
+  );
+  await backend.update("a.json", () => encoder.encode("4"));
+  assertEquals(decoder.decode(await backend.get("a.json")), "4");
+
+  for (const key of ["", "../a", "a//b", "./a", "a/..", "a\\b"]) {
+    await assertRejects(() => backend.get(key), TypeError);
+  }
+  await assertRejects(() => backend.list("dir"), TypeError);
+
+  await backend.flush();
+}
+
+Deno.test("MemoryBackend", async () => {
+  const backend = new MemoryBackend();
+  await testBackend(backend);
+
+  backend.updateSync("sync", () => encoder.encode("5"));
+  assertEquals(decoder.decode(backend.getSync("sync")), "5");
+  assertThrows(() => backend.getSync(".."), TypeError);
+
+  await backend.rename("sync", "renamed");
+  assertEquals(backend.getSync("sync"), undefined);
+  assertEquals(decoder.decode(backend.getSync("renamed")), "5");
+});
+
+Deno.test("JsonFileBackend", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const backend = new JsonFileBackend(dir);
+    await testBackend(backend);
+
+    // Keys are plain files below the directory, only readable by the user
+    const filePath = path.join(dir, "dir", "sub", "c");
+    assertEquals(await Deno.readTextFile(filePath), "3");
+    if (Deno.build.os !== "windows") {
+      assertEquals((await Deno.stat(filePath)).mode! & 0o777, 0o600);
+    }
+    // Lock files aren't listed
+    await Deno.writeTextFile(path.join(dir, "x.json.lock"), "");
+    assertEquals((await backend.list("")).sort(), ["a.json"]);
+
+    backend.updateSync("sync.json", () => encoder.encode("5"));
+    assertEquals(decoder.decode(backend.getSync("sync.json")), "5");
+
+    await backend.writeStream(
+      "streamed",
+      ReadableStream.from([encoder.encode("a"), encoder.encode("b")]),
+    );
+    const stream = await backend.readStream("streamed");
+    assertEquals(await new Response(stream).text(), "ab");
+    assertEquals(await backend.readStream("missing"), undefined);
+
+    await backend.rename("streamed", "dir/moved");
+    assertEquals(await backend.get("streamed"), undefined);
+    assertEquals(decoder.decode(await backend.get("dir/moved")), "ab");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("JsonFileBackend watches keys in a relative dir", async () => {
+  const dir = await Deno.makeTempDir();
+  const controller = new AbortController();
+  try {
+    // Events have absolute paths, so they have to be matched against the
+    // resolved dir
+    const backend = new JsonFileBackend(path.relative(Deno.cwd(), dir));
+    const changes = backend.watch("watched.json", controller.signal)
+      [Symbol.asyncIterator]();
+    const changed = changes.next();
+    // Give the watcher time to start
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await new JsonFileBackend(dir).set("watched.json", encoder.encode("1"));
+
+    // Without a matching event, the watch ends when aborted
+    const timer = setTimeout(() => controller.abort(), 5000);
+    assertEquals((await changed).done, false);
+    clearTimeout(timer);
+  } finally {
+    controller.abort();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("KvBackend", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const backend = new KvBackend(kv, ["test"]);
+    await testBackend(backend);
+
+    // Keys are stored below the prefix, update locks aren't listed
+    assertEquals(
+      decoder.decode((await kv.get<Uint8Array>(["test", "a.json"])).value!),
+      "4",
+    );
+    assertEquals(await new KvBackend(kv).list(""), []);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("KvBackend splits large values into chunks", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const backend = new KvBackend(kv, ["test"]);
+    const large = new Uint8Array(200 * 1024).map((_, i) => i % 251);
+
+    await backend.set("large", large);
+    assertEquals(await backend.get("large"), large);
+    assertEquals(
+      new Uint8Array(
+        await new Response(await backend.readStream("large")).arrayBuffer(),
+      ),
+      large,
+    );
+
+    // Streamed values are written in chunks as they arrive
+    await backend.writeStream(
+      "streamed",
+      ReadableStream.from([large.subarray(0, 1000), large.subarray(1000)]),
+    );
+    assertEquals(await backend.get("streamed"), large);
+
+    // Renaming moves the chunks along, replacing and deleting frees them
+    await backend.rename("streamed", "large");
+    assertEquals(await backend.get("large"), large);
+    assertEquals(await backend.get("streamed"), undefined);
+    await backend.update("large", (value) => value!.subarray(0, 10));
+    assertEquals(await backend.get("large"), large.subarray(0, 10));
+    await backend.set("other", large);
+    await backend.delete("other");
+
+    const entries = await Array.fromAsync(kv.list({ prefix: [] }));
+    assertEquals(entries.map((entry) => entry.key), [["test", "large"]]);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("importJsonFiles copies the JSON files into another backend", async () => {
+  const { setupLocalStorage, flushLocalStorage } = await import(
+    "../local-storage-polyfill/mod.ts"
+  );
+  const { setupCachesPolyfill } = await import("../caches-polyfill/mod.ts");
+  const dir = await Deno.makeTempDir();
+  const kv = await Deno.openKv(":memory:");
+  Deno.env.set("DENO_COMPILE_EXTRA_DIR", dir);
+  try {
+    const appId = "import-test";
+    const body = "x".repeat(100 * 1024);
+
+    // Store some data with the default JSON file backends
+    await setupLocalStorage({ appId, force: true });
+    localStorage.setItem("key", "value");
+    await setupCachesPolyfill({ appId, force: true });
+    const cache = await caches.open("v1");
+    await cache.put("https://example.com/", new Response(body));
+
+    const localStorageBackend = new KvBackend(kv, ["localStorage"]);
+    const cachesBackend = new KvBackend(kv, ["caches"]);
+    const options = {
+      appId,
+      localStorage: localStorageBackend,
+      caches: cachesBackend,
+    };
+    assertEquals(await importJsonFiles(options), {
+      localStorage: true,
+      caches: ["v1"],
+    });
+    // Running it again keeps what was imported
+    assertEquals(await importJsonFiles(options), {
+      localStorage: false,
+      caches: [],
+    });
+
+    await setupLocalStorage({
+      appId,
+      backend: localStorageBackend,
+      force: true,
+    });
+    assertEquals(localStorage.getItem("key"), "value");
+    localStorage.clear();
+    await flushLocalStorage();
+    await setupCachesPolyfill({ backend: cachesBackend, force: true });
+    const res = await (await caches.open("v1")).match("https://example.com/");
+    assertEquals(await res?.text(), body);
+  } finally {
+    Deno.env.delete("DENO_COMPILE_EXTRA_DIR");
+    kv.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("EncryptedBackend encrypts values and detects tampering", async () => {
+  const generateKey = () =>
+    crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+      "encrypt",
+      "decrypt",
+    ]);
+  const key = await generateKey();
+  await testBackend(new EncryptedBackend(new MemoryBackend(), key));
+
+  const inner = new MemoryBackend();
+  const backend = new EncryptedBackend(inner, key);
+  await backend.set("token.json", encoder.encode('{"token":"secret"}'));
+  const stored = inner.getSync("token.json.enc")!;
+  assertEquals(decoder.decode(stored).includes("secret"), false);
+  assertEquals(await inner.list(""), ["token.json.enc"]);
+
+  // Large values are streamed in records
+  const large = new Uint8Array(200 * 1024).map((_, i) => i % 251);
+  await backend.writeStream("large", ReadableStream.from([large]));
+  const stream = await backend.readStream("large");
+  assertEquals(new Uint8Array(await new Response(stream).arrayBuffer()), large);
+  await backend.rename("large", "moved");
+  assertEquals(await backend.get("moved"), large);
+
+  const tampered = stored.slice();
+  tampered[tampered.length - 1] ^= 1;
+  const encryptedLarge = inner.getSync("moved.enc")!;
+  const cases: [string, Uint8Array][] = [
+    ["modified", tampered],
+    ["moved from another key", encryptedLarge],
+    ["truncated", encryptedLarge.subarray(0, encryptedLarge.length - 1000)],
+    ["cut at a record", encryptedLarge.subarray(0, 4 + 12 + 64 * 1024 + 16)],
+    ["not encrypted", encoder.encode('{"token":"forged"}')],
+  ];
+  for (const [name, value] of cases) {
+    await inner.set("token.json.enc", value);
+    await assertRejects(
+      () => backend.get("token.json"),
+      Error,
+      "could not be decrypted",
+      name,
+    );
+  }
+  await inner.set("token.json.enc", stored);
+  const otherBackend = new EncryptedBackend(inner, await generateKey());
+  await assertRejects(
+    () => otherBackend.get("token.json"),
+    Error,
+    "could not be decrypted",
+  );
+
+  // Unencrypted values are encrypted on request
+  await inner.set("plain.json", encoder.encode("{}"));
+  assertEquals(await backend.encryptExisting("plain.json"), true);
+  assertEquals(await backend.encryptExisting("plain.json"), false);
+  assertEquals(inner.getSync("plain.json"), undefined);
+  assertEquals(decoder.decode(await backend.get("plain.json")), "{}");
+});
@@ -0,0 +1,936 @@
+/**
+ * Storage backends for the localStorage, sessionStorage and caches polyfills.
+ *
+ * A backend is a small key/value store of bytes. Keys are `/` separated paths
+ * like `my-cache.json` or `my-cache.blobs/<hash>`. By default the polyfills use
+ * a {@linkcode JsonFileBackend} in the platform data or cache directory; pass
+ * another backend to the setup functions to store the data somewhere else.
+ *
+ * Give each polyfill its own backend (or directory, or KV prefix): they don't
+ * namespace their keys. Wrap a backend in an {@linkcode EncryptedBackend} to
+ * encrypt what it stores.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * import { MemoryBackend } from "jsr:@sigma/deno-compile-extra/backends";
+ * import { setupLocalStorage } from "jsr:@sigma/deno-compile-extra/localStoragePolyfill";
+ *
+ * // Install a throwaway localStorage, also under `deno run` and `deno test`
+ * await setupLocalStorage({ backend: new MemoryBackend(), force: true });
+ * ```
+ *
+ * @module
+ */
+import { basename, dirname, join, resolve } from "@std/path";
+import { ensureDir, ensureDirSync } from "@std/fs";
+import {
+  readStream,
+  restrictFileMode,
+  withFileLock,
+  withFileLockSync,
+  writeFileAtomic,
+  writeFileAtomicSync,
+  writeStream,
+} from "../utils.ts";
+
+export {
+  importJsonFiles,
+  type ImportJsonFilesOptions,
+  type ImportJsonFilesResult,
+} from "./import.ts";
+
+/** A value that is available right away or after awaiting it. */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Computes the new value of a key from its current one in
+ * {@linkcode StorageBackend.update}. Return the bytes to store, `null` to
+ * delete the key, or `undefined` to leave it as it is.
+ */
+export type UpdateFn = (
+  value: Uint8Array | undefined,
+) => MaybePromise<Uint8Array | null | undefined>;
+
+/**
+ * Key/value store of bytes the polyfills keep their data in.
+ *
+ * Keys are `/` separated paths; the segments are never empty, `.` or `..`.
+ * Keys ending in `.lock` or `.tmp` are reserved for the backends themselves.
+ */
+export interface StorageBackend {
+  /** Returns the value stored under `key`, or `undefined` if there is none. */
+  get(key: string): Promise<Uint8Array | undefined>;
+  /** Stores `value` under `key`, replacing any previous value. */
+  set(key: string, value: Uint8Array): Promise<void>;
+  /** Removes `key`. Removing a missing key does nothing. */
+  delete(key: string): Promise<void>;
+  /**
+   * Lists the keys one level below `prefix`, which is either empty or ends in
+   * `/` like a directory, in no particular order.
+   */
+  list(prefix: string): Promise<string[]>;
+  /** Persists writes that the backend still buffers. */
+  flush(): Promise<void>;
+  /**
+   * Replaces the value of `key` with the result of `fn`, called with the
+   * current value. No other update of `key`, in this process or in another
+   * one sharing the backend, runs until `fn` has settled and its result is
+   * stored, so `fn` may also touch other keys that belong to `key`.
+   */
+  update(key: string, fn: UpdateFn): Promise<void>;
+
+  /** Synchronous version of {@linkcode StorageBackend.get}, if supported. */
+  getSync?(key: string): Uint8Array | undefined;
+  /** Synchronous version of {@linkcode StorageBackend.update}, if supported. */
+  updateSync?(
+    key: string,
+    fn: (value: Uint8Array | undefined) => Uint8Array | null | undefined,
+  ): void;
+  /** Streams the value of `key`, without holding it in memory, if supported. */
+  readStream?(key: string): Promise<ReadableStream<Uint8Array> | undefined>;
+  /** Stores the content of `stream` under `key`, if supported. */
+  writeStream?(key: string, stream: ReadableStream<Uint8Array>): Promise<void>;
+  /** Moves the value of `from` to `to` without copying it, if supported. */
+  rename?(from: string, to: string): Promise<void>;
+  /**
+   * Yields whenever `key` may have been changed, possibly by another process,
+   * until `signal` is aborted. Spurious wake ups are allowed.
+   */
+  watch?(key: string, signal: AbortSignal): AsyncIterable<void>;
+}
+
+// Splits a key into its path segments, rejecting ones that could escape the
+// backend's root
+function keySegments(key: string): string[] {
+  const segments = key.split("/");
+  if (
+    segments.some((segment) =>
+      segment === "" || segment === "." || segment === ".." ||
+      segment.includes("\\")
+    )
+  ) {
+    throw new TypeError(`Invalid storage key "${key}"`);
+  }
+  return segments;
+}
+
+// Throws for prefixes that aren't empty or a directory
+function prefixSegments(prefix: string): string[] {
+  if (prefix === "") return [];
+  if (!prefix.endsWith("/")) {
+    throw new TypeError(`Storage key prefix "${prefix}" must end with "/"`);
+  }
+  return keySegments(prefix.slice(0, -1));
+}
+
+// ================= JsonFileBackend ===============
+
+/**
+ * Stores every key as a file below a directory, e.g. the value of
+ * `my-cache.blobs/<hash>` in `<dir>/my-cache.blobs/<hash>`.
+ *
+ * Files are written atomically (temp file + rename) and updates hold a lock
+ * on `<file>.lock`, so several processes can share the directory. This is the
+ * layout the polyfills have always used, so it reads data written by earlier
+ * versions.
+ */
+export class JsonFileBackend implements StorageBackend {
+  #dir: string;
+
+  constructor(dir: string) {
+    this.#dir = dir;
+  }
+
+  #path(key: string): string {
+    return join(this.#dir, ...keySegments(key));
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    try {
+      return await Deno.readFile(this.#path(key));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return undefined;
+      throw error;
+    }
+  }
+
+  getSync(key: string): Uint8Array | undefined {
+    try {
+      return Deno.readFileSync(this.#path(key));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return undefined;
+      throw error;
+    }
+  }
+
+  async set(key: string, value: Uint8Array): Promise<void> {
+    const filePath = this.#path(key);
+    await ensureDir(dirname(filePath));
+    await writeFileAtomic(filePath, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.#path(key);
+    try {
+      await Deno.remove(filePath);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+    await this.#removeEmptyParent(filePath);
+  }
+
+  // Removes the directory a nested key lived in once it is empty
+  async #removeEmptyParent(filePath: string): Promise<void> {
+    const parent = dirname(filePath);
+    if (parent === this.#dir) return;
+    await Deno.remove(parent).catch(() => {}); // Fails while not empty
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const dir = join(this.#dir, ...prefixSegments(prefix));
+    const keys: string[] = [];
+    try {
+      for await (const entry of Deno.readDir(dir)) {
+        if (
+          entry.isFile && !entry.name.endsWith(".lock") &&
+          !entry.name.endsWith(".tmp")
+        ) {
+          keys.push(prefix + entry.name);
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+    return keys;
+  }
+
+  async flush(): Promise<void> {
+    // Every write is flushed to disk before it returns
+  }
+
+  async update(key: string, fn: UpdateFn): Promise<void> {
+    const filePath = this.#path(key);
+    await ensureDir(dirname(filePath));
+    await withFileLock(filePath, async () => {
+      const next = await fn(await this.get(key));
+      if (next === undefined) return;
+      if (next === null) {
+        await Deno.remove(filePath).catch((error) => {
+          if (!(error instanceof Deno.errors.NotFound)) throw error;
+        });
+      } else {
+        await writeFileAtomic(filePath, next);
+      }
+    });
+  }
+
+  updateSync(
+    key: string,
+    fn: (value: Uint8Array | undefined) => Uint8Array | null | undefined,
+  ): void {
+    const filePath = this.#path(key);
+    ensureDirSync(dirname(filePath));
+    withFileLockSync(filePath, () => {
+      const next = fn(this.getSync(key));
+      if (next === undefined) return;
+      if (next === null) {
+        try {
+          Deno.removeSync(filePath);
+        } catch (error) {
+          if (!(error instanceof Deno.errors.NotFound)) throw error;
+        }
+      } else {
+        writeFileAtomicSync(filePath, next);
+      }
+    });
+  }
+
+  async readStream(
+    key: string,
+  ): Promise<ReadableStream<Uint8Array> | undefined> {
+    try {
+      const file = await Deno.open(this.#path(key));
+      return file.readable; // Closes the file once fully read or cancelled
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return undefined;
+      throw error;
+    }
+  }
+
+  async writeStream(
+    key: string,
+    stream: ReadableStream<Uint8Array>,
+  ): Promise<void> {
+    const filePath = this.#path(key);
+    await ensureDir(dirname(filePath));
+    const tempPath = await Deno.makeTempFile({
+      dir: dirname(filePath),
+      suffix: ".tmp",
+    });
+    try {
+      await restrictFileMode(tempPath);
+      const file = await Deno.open(tempPath, { write: true, truncate: true });
+      try {
+        for await (const chunk of stream) {
+          for (let written = 0; written < chunk.length;) {
+            written += await file.write(chunk.subarray(written));
+          }
+        }
+        // Flushed before the rename like writeFileAtomic, so a crash can't
+        // leave a truncated blob in place
+        await file.sync();
+      } finally {
+        file.close();
+      }
+      await Deno.rename(tempPath, filePath);
+    } catch (error) {
+      await Deno.remove(tempPath).catch(() => {});
+      throw error;
+    }
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    const toPath = this.#path(to);
+    await ensureDir(dirname(toPath));
+    await Deno.rename(this.#path(from), toPath);
+  }
+
+  async *watch(key: string, signal: AbortSignal): AsyncIterable<void> {
+    if (signal.aborted) return;
+    const filePath = this.#path(key);
+    // Watch the directory: atomic writes replace the file, which would end a
+    // watch on the file itself
+    await ensureDir(dirname(filePath));
+    // Events have absolute paths with symlinks resolved, e.g. /private/var for
+    // /var on macOS, so relative or linked dirs wouldn't match filePath
+    const watchedDir = await Deno.realPath(dirname(filePath));
+    const watchedPaths = [
+      resolve(filePath),
+      join(watchedDir, basename(filePath)),
+    ];
+    const watcher = Deno.watchFs(watchedDir, { recursive: false });
+    signal.addEventListener("abort", () => watcher.close(), { once: true });
+    for await (const event of watcher) {
+      if (event.paths.some((path) => watchedPaths.includes(path))) yield;
+    }
+  }
+}
+
+// ================= MemoryBackend ===============
+
+/**
+ * Keeps everything in memory, so it is gone when the process exits. Useful
+ * for tests and as the default of the sessionStorage polyfill.
+ */
+export class MemoryBackend implements StorageBackend {
+  #values = new Map<string, Uint8Array>();
+  // Tail of the update chain of every key that is being updated
+  #updates = new Map<string, Promise<void>>();
+
+  get(key: string): Promise<Uint8Array | undefined> {
+    return Promise.resolve(this.getSync(key));
+  }
+
+  getSync(key: string): Uint8Array | undefined {
+    keySegments(key);
+    return this.#values.get(key);
+  }
+
+  set(key: string, value: Uint8Array): Promise<void> {
+    keySegments(key);
+    this.#values.set(key, value.slice()); // The caller may reuse its buffer
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    keySegments(key);
+    this.#values.delete(key);
+    return Promise.resolve();
+  }
+
+  list(prefix: string): Promise<string[]> {
+    const depth = prefixSegments(prefix).length + 1;
+    return Promise.resolve(
+      [...this.#values.keys()].filter((key) =>
+        key.startsWith(prefix) && key.split("/").length === depth
+      ),
+    );
+  }
+
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  update(key: string, fn: UpdateFn): Promise<void> {
+    keySegments(key);
+    const previous = this.#updates.get(key) ?? Promise.resolve();
+    const current = previous.then(async () => {
+      this.#store(key, await fn(this.#values.get(key)));
+    });
+    // Later updates wait for this one even if it fails
+    const tail = current.catch(() => {});
+    this.#updates.set(key, tail);
+    tail.then(() => {
+      if (this.#updates.get(key) === tail) this.#updates.delete(key);
+    });
+    return current;
+  }
+
+  updateSync(
+    key: string,
+    fn: (value: Uint8Array | undefined) => Uint8Array | null | undefined,
+  ): void {
+    keySegments(key);
+    this.#store(key, fn(this.#values.get(key)));
+  }
+
+  #store(key: string, next: Uint8Array | null | undefined): void {
+    if (next === null) this.#values.delete(key);
+    else if (next !== undefined) this.#values.set(key, next.slice());
+  }
+
+  rename(from: string, to: string): Promise<void> {
+    keySegments(to);
+    const value = this.#values.get(from);
+    if (value === undefined) {
+      return Promise.reject(new Deno.errors.NotFound(`No key "${from}"`));
+    }
+    this.#values.delete(from);
+    this.#values.set(to, value);
+    return Promise.resolve();
+  }
+}
+
+// ================= KvBackend ===============
+
+// Updates of a key hold a lease on it for at most this long, so a crashed
+// process can't block the key forever
+const KV_LOCK_LEASE_MS = 30_000;
+// Values larger than this are split into chunks, as a KV value can't exceed
+// 64KiB
+const KV_CHUNK_SIZE = 60 * 1024;
+// First key part of the entries only the backend uses. Numbers never appear
+// in keys made from strings, so they can't collide with stored keys.
+const KV_LOCKS = 0;
+const KV_CHUNKS = 1;
+
+interface KvLock {
+  owner: string;
+  expiresAt: number;
+}
+
+// Stored in place of a value that is split into chunks, which live at
+// [...prefix, KV_CHUNKS, id, index]
+interface KvChunkedValue {
+  id: string;
+  chunks: number;
+  size: number;
+}
+
+type KvValue = Uint8Array | KvChunkedValue;
+
+function isChunked(value: KvValue | null): value is KvChunkedValue {
+  return value !== null && !(value instanceof Uint8Array);
+}
+
+/**
+ * Stores every key as an entry of a Deno KV database, below `prefix`. The key
+ * `my-cache.blobs/<hash>` becomes `[...prefix, "my-cache.blobs", "<hash>"]`.
+ *
+ * Every write is a transaction, so several processes can share the database,
+ * e.g. a local SQLite file opened with `Deno.openKv(path)`. Values larger than
+ * a KV value allows (64KiB) are split into chunks that are written and read
+ * one at a time, so cache bodies are streamed. Compile with `--unstable-kv`.
+ *
+ * @example
+ * ```ts
+ * import { KvBackend } from "jsr:@sigma/deno-compile-extra/backends";
+ * import { setupLocalStorage } from "jsr:@sigma/deno-compile-extra/localStoragePolyfill";
+ *
+ * const kv = await Deno.openKv("./app-data.sqlite");
+ * await setupLocalStorage({ backend: new KvBackend(kv, ["localStorage"]) });
+ * ```
+ */
+export class KvBackend implements StorageBackend {
+  #kv: Deno.Kv;
+  #prefix: Deno.KvKey;
+
+  constructor(kv: Deno.Kv, prefix: Deno.KvKey = []) {
+    this.#kv = kv;
+    this.#prefix = prefix;
+  }
+
+  #kvKey(key: string): Deno.KvKey {
+    return [...this.#prefix, ...keySegments(key)];
+  }
+
+  #chunkKey(id: string, index: number): Deno.KvKey {
+    return [...this.#prefix, KV_CHUNKS, id, index];
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    const kvKey = this.#kvKey(key);
+    let entry = await this.#kv.get<KvValue>(kvKey);
+    while (isChunked(entry.value)) {
+      const value = await this.#readChunks(entry.value);
+      if (value) return value;
+      // The value was replaced while reading it, which deletes its chunks
+      const latest = await this.#kv.get<KvValue>(kvKey);
+      if (latest.versionstamp === entry.versionstamp) {
+        throw new Error(`The chunks of storage key "${key}" are missing`);
+      }
+      entry = latest;
+    }
+    return entry.value ?? undefined;
+  }
+
+  // Joins the chunks of value, or returns undefined if some are gone
+  async #readChunks(value: KvChunkedValue): Promise<Uint8Array | undefined> {
+    const bytes = new Uint8Array(value.size);
+    let offset = 0;
+    for (let index = 0; index < value.chunks; index++) {
+      const chunk = await this.#kv.get<Uint8Array>(
+        this.#chunkKey(value.id, index),
+      );
+      if (chunk.value === null) return undefined;
+      bytes.set(chunk.value, offset);
+      offset += chunk.value.length;
+    }
+    return bytes;
+  }
+
+  async set(key: string, value: Uint8Array): Promise<void> {
+    await this.#commit(this.#kvKey(key), await this.#prepare([value]));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.#commit(this.#kvKey(key), null);
+  }
+
+  // Writes the chunks of the content of source under a new ID, unless it
+  // fits in a single value
+  async #prepare(
+    source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+  ): Promise<KvValue> {
+    const id = crypto.randomUUID();
+    const buffer = new Uint8Array(KV_CHUNK_SIZE);
+    let filled = 0;
+    let chunks = 0;
+    let size = 0;
+    const writeChunk = async () => {
+      await this.#kv.set(this.#chunkKey(id, chunks), buffer.slice(0, filled));
+      chunks++;
+      size += filled;
+      filled = 0;
+    };
+    try {
+      for await (const piece of source) {
+        for (let offset = 0; offset < piece.length;) {
+          // A full buffer is only written once more data follows, so values
+          // of exactly one chunk stay in a single value
+          if (filled === KV_CHUNK_SIZE) await writeChunk();
+          const length = Math.min(
+            piece.length - offset,
+            KV_CHUNK_SIZE - filled,
+          );
+          buffer.set(piece.subarray(offset, offset + length), filled);
+          filled += length;
+          offset += length;
+        }
+      }
+      if (chunks === 0) return buffer.slice(0, filled);
+      await writeChunk();
+    } catch (error) {
+      await this.#deleteChunks({ id, chunks, size });
+      throw error;
+    }
+    return { id, chunks, size };
+  }
+
+  // Stores value under kvKey, or deletes kvKey if it is null, then deletes
+  // the chunks of the value it replaced
+  async #commit(kvKey: Deno.KvKey, value: KvValue | null): Promise<void> {
+    while (true) {
+      const previous = await this.#kv.get<KvValue>(kvKey);
+      const operation = this.#kv.atomic().check(previous);
+      if (value === null) operation.delete(kvKey);
+      else operation.set(kvKey, value);
+      if ((await operation.commit()).ok) {
+        if (isChunked(previous.value)) await this.#deleteChunks(previous.value);
+        return;
+      }
+    }
+  }
+
+  async #deleteChunks({ id, chunks }: KvChunkedValue): Promise<void> {
+    for (let index = 0; index < chunks; index++) {
+      await this.#kv.delete(this.#chunkKey(id, index));
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const kvPrefix = [...this.#prefix, ...prefixSegments(prefix)];
+    const keys: string[] = [];
+    // String key parts sort before numbers, which skips locks and chunks
+    const entries = this.#kv.list({
+      start: [...kvPrefix, ""],
+      end: [...kvPrefix, KV_LOCKS],
+    });
+    for await (const entry of entries) {
+      // Deeper keys aren't listed
+      if (entry.key.length === kvPrefix.length + 1) {
+        keys.push(prefix + String(entry.key[kvPrefix.length]));
+      }
+    }
+    return keys;
+  }
+
+  async flush(): Promise<void> {
+    // Every write is committed before it returns
+  }
+
+  async update(key: string, fn: UpdateFn): Promise<void> {
+    keySegments(key);
+    const lockKey = [...this.#prefix, KV_LOCKS, key];
+    const owner = crypto.randomUUID();
+    for (let delay = 5;; delay = Math.min(delay * 2, 200)) {
+      const lock = await this.#kv.get<KvLock>(lockKey);
+      if (lock.value === null || lock.value.expiresAt <= Date.now()) {
+        const { ok } = await this.#kv.atomic()
+          .check(lock)
+          .set(lockKey, { owner, expiresAt: Date.now() + KV_LOCK_LEASE_MS })
+          .commit();
+        if (ok) break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+    try {
+      const next = await fn(await this.get(key));
+      if (next === null) await this.delete(key);
+      else if (next !== undefined) await this.set(key, next);
+    } finally {
+      const lock = await this.#kv.get<KvLock>(lockKey);
+      if (lock.value?.owner === owner) {
+        await this.#kv.atomic().check(lock).delete(lockKey).commit();
+      }
+    }
+  }
+
+  async readStream(
+    key: string,
+  ): Promise<ReadableStream<Uint8Array> | undefined> {
+    const entry = await this.#kv.get<KvValue>(this.#kvKey(key));
+    if (entry.value === null) return undefined;
+    if (!isChunked(entry.value)) return ReadableStream.from([entry.value]);
+    const { id, chunks } = entry.value;
+    let index = 0;
+    return new ReadableStream({
+      pull: async (controller) => {
+        if (index === chunks) return controller.close();
+        const chunk = await this.#kv.get<Uint8Array>(
+          this.#chunkKey(id, index++),
+        );
+        if (chunk.value === null) {
+          throw new Error(`Storage key "${key}" was replaced while reading it`);
+        }
+        controller.enqueue(chunk.value);
+      },
+    });
+  }
+
+  async writeStream(
+    key: string,
+    stream: ReadableStream<Uint8Array>,
+  ): Promise<void> {
+    const kvKey = this.#kvKey(key);
+    await this.#commit(kvKey, await this.#prepare(stream));
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    const fromKey = this.#kvKey(from);
+    const toKey = this.#kvKey(to);
+    while (true) {
+      const source = await this.#kv.get<KvValue>(fromKey);
+      if (source.value === null) {
+        throw new Deno.errors.NotFound(`No key "${from}"`);
+      }
+      if (from === to) return;
+      // Only the entry pointing at the chunks moves
+      const target = await this.#kv.get<KvValue>(toKey);
+      const { ok } = await this.#kv.atomic()
+        .check(source, target)
+        .set(toKey, source.value)
+        .delete(fromKey)
+        .commit();
+      if (ok) {
+        if (isChunked(target.value)) await this.#deleteChunks(target.value);
+        return;
+      }
+    }
+  }
+
+  async *watch(key: string, signal: AbortSignal): AsyncIterable<void> {
+    if (signal.aborted) return;
+    const stream = this.#kv.watch([this.#kvKey(key)]);
+    const reader = stream.getReader();
+    signal.addEventListener("abort", () => reader.cancel(), { once: true });
+    while (true) {
+      const { done } = await reader.read();
+      if (done) return;
+      yield;
+    }
+  }
+}
+
+// ================= EncryptedBackend ===============
+
+// Starts every encrypted value: "DCE" and the format version
+const HEADER = new Uint8Array([0x44, 0x43, 0x45, 0x01]);
+// Values are encrypted in records of this many bytes, so they can be streamed
+const RECORD_SIZE = 64 * 1024;
+const IV_SIZE = 12;
+const TAG_SIZE = 16;
+// Suffix of the keys the encrypted values are stored under in the wrapped
+// backend, which keeps them apart from unencrypted values
+const SUFFIX = ".enc";
+
+const encoder = new TextEncoder();
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(a.length + b.length);
+  bytes.set(a);
+  bytes.set(b, a.length);
+  return bytes;
+}
+
+// Splits source into records of size bytes, flagging the last one. There is
+// always a last record, it is empty for empty sources.
+async function* records(
+  source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+  size: number,
+): AsyncIterable<[record: Uint8Array<ArrayBuffer>, last: boolean]> {
+  let buffer = new Uint8Array();
+  for await (const piece of source) {
+    buffer = concat(buffer, piece);
+    // Only yield full records once more data follows
+    while (buffer.length > size) {
+      yield [buffer.slice(0, size), false];
+      buffer = buffer.subarray(size);
+    }
+  }
+  yield [buffer, true];
+}
+
+function decryptionError(key: string, cause?: unknown): Error {
+  return new Error(
+    `Storage key "${key}" could not be decrypted: it was modified or encrypted with another key`,
+    { cause },
+  );
+}
+
+/**
+ * Encrypts every value of another backend with AES-GCM, e.g. to keep tokens
+ * stored in localStorage away from other processes of the same user.
+ *
+ * Values are stored under their key plus `.enc` in the wrapped backend, split
+ * into authenticated records that are bound to the key. Reading a value that
+ * was modified, truncated, moved to another key or encrypted with another
+ * `CryptoKey` throws.
+ *
+ * Encryption is asynchronous, so with this backend localStorage changes are
+ * written in the background.
+ *
+ * @example
+ * ```ts
+ * import { EncryptedBackend, MemoryBackend } from "jsr:@sigma/deno-compile-extra/backends";
+ *
+ * const key = await crypto.subtle.generateKey(
+ *   { name: "AES-GCM", length: 256 },
+ *   false,
+ *   ["encrypt", "decrypt"],
+ * );
+ * const backend = new EncryptedBackend(new MemoryBackend(), key);
+ * ```
+ */
+export class EncryptedBackend implements StorageBackend {
+  #inner: StorageBackend;
+  #key: CryptoKey;
+
+  /** Only available if the wrapped backend can watch keys. */
+  watch?: (key: string, signal: AbortSignal) => AsyncIterable<void>;
+
+  constructor(inner: StorageBackend, key: CryptoKey) {
+    this.#inner = inner;
+    this.#key = key;
+    if (inner.watch) {
+      this.watch = (key, signal) => inner.watch!(this.#innerKey(key), signal);
+    }
+  }
+
+  #innerKey(key: string): string {
+    keySegments(key);
+    return key + SUFFIX;
+  }
+
+  // Binds a record to its key and position, so records can't be moved
+  #additionalData(
+    key: string,
+    index: number,
+    last: boolean,
+  ): Uint8Array<ArrayBuffer> {
+    return encoder.encode(JSON.stringify([key, index, last]));
+  }
+
+  async *#encrypt(
+    key: string,
+    source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+  ): AsyncIterable<Uint8Array> {
+    yield HEADER;
+    let index = 0;
+    for await (const [record, last] of records(source, RECORD_SIZE)) {
+      const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE));
+      const ciphertext = await crypto.subtle.encrypt(
+        {
+          name: "AES-GCM",
+          iv,
+          additionalData: this.#additionalData(key, index++, last),
+        },
+        this.#key,
+        record,
+      );
+      yield concat(iv, new Uint8Array(ciphertext));
+    }
+  }
+
+  async *#decrypt(
+    key: string,
+    source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+  ): AsyncIterable<Uint8Array> {
+    let header: Uint8Array | undefined = new Uint8Array();
+    // Strips the header from the first pieces
+    const body = async function* () {
+      for await (let piece of source) {
+        if (header !== undefined) {
+          header = concat(header, piece);
+          if (header.length < HEADER.length) continue;
+          if (!HEADER.every((byte, i) => header![i] === byte)) {
+            throw decryptionError(key);
+          }
+          piece = header.subarray(HEADER.length);
+          header = undefined;
+        }
+        yield piece;
+      }
+      if (header !== undefined) throw decryptionError(key);
+    };
+    let index = 0;
+    const recordSize = IV_SIZE + RECORD_SIZE + TAG_SIZE;
+    for await (const [record, last] of records(body(), recordSize)) {
+      try {
+        const plaintext = await crypto.subtle.decrypt(
+          {
+            name: "AES-GCM",
+            iv: record.subarray(0, IV_SIZE),
+            additionalData: this.#additionalData(key, index++, last),
+          },
+          this.#key,
+          record.subarray(IV_SIZE),
+        );
+        yield new Uint8Array(plaintext);
+      } catch (error) {
+        throw decryptionError(key, error);
+      }
+    }
+  }
+
+  async #encryptBytes(key: string, value: Uint8Array): Promise<Uint8Array> {
+    const stream = ReadableStream.from(this.#encrypt(key, [value]));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  async #decryptBytes(key: string, value: Uint8Array): Promise<Uint8Array> {
+    const stream = ReadableStream.from(this.#decrypt(key, [value]));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    const value = await this.#inner.get(this.#innerKey(key));
+    return value && await this.#decryptBytes(key, value);
+  }
+
+  async set(key: string, value: Uint8Array): Promise<void> {
+    await this.#inner.set(
+      this.#innerKey(key),
+      await this.#encryptBytes(key, value),
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.#inner.delete(this.#innerKey(key));
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return (await this.#inner.list(prefix))
+      .filter((key) => key.endsWith(SUFFIX))
+      .map((key) => key.slice(0, -SUFFIX.length));
+  }
+
+  async flush(): Promise<void> {
+    await this.#inner.flush();
+  }
+
+  async update(key: string, fn: UpdateFn): Promise<void> {
+    await this.#inner.update(this.#innerKey(key), async (value) => {
+      const next = await fn(value && await this.#decryptBytes(key, value));
+      return next && await this.#encryptBytes(key, next);
+    });
+  }
+
+  async readStream(
+    key: string,
+  ): Promise<ReadableStream<Uint8Array> | undefined> {
+    const stream = await readStream(this.#inner, this.#innerKey(key));
+    return stream && ReadableStream.from(this.#decrypt(key, stream));
+  }
+
+  async writeStream(
+    key: string,
+    stream: ReadableStream<Uint8Array>,
+  ): Promise<void> {
+    await writeStream(
+      this.#inner,
+      this.#innerKey(key),
+      ReadableStream.from(this.#encrypt(key, stream)),
+    );
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    // Records are bound to their key, so they are encrypted again
+    const stream = await this.readStream(from);
+    if (stream === undefined) {
+      throw new Deno.errors.NotFound(`No key "${from}"`);
+    }
+    await this.writeStream(to, stream);
+    await this.#inner.delete(this.#innerKey(from));
+  }
+
+  /**
+   * Encrypts the unencrypted value stored under `key` in the wrapped backend,
+   * if there is one, and deletes it. Returns whether there was one.
+   *
+   * An encrypted value that already exists is kept.
+   */
+  async encryptExisting(key: string): Promise<boolean> {
+    const stream = await readStream(this.#inner, key);
+    if (stream === undefined) return false;
+    const encrypted = await readStream(this.#inner, this.#innerKey(key));
+    if (encrypted === undefined) {
+      await this.writeStream(key, stream);
+    } else {
+      await Promise.all([stream.cancel(), encrypted.cancel()]);
+    }
+    await this.#inner.delete(key);
+    return true;
+  }
+}
@@ -0,0 +1,306 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { setupCachesPolyfill } from "../caches-polyfill/mod.ts";
+import { MemoryBackend } from "../backends/mod.ts";
+import { cachedFetch, type CachedFetchOptions } from "./mod.ts";
+
+// Helper function to run fn against a local server answering with handler,
+// passing it a cached fetch, the server URL and the requests the server got
+async function withServer(
+  handler: (request: Request) => Response,
+  fn: (
+    fetchWithCache: ReturnType<typeof cachedFetch>,
+    url: string,
+    requests: Request[],
+    server: Deno.HttpServer,
+  ) => Promise<void>,
+  options: CachedFetchOptions = {},
+): Promise<void> {
+  // A fresh in-memory cache for every test
+  await setupCachesPolyfill({ backend: new MemoryBackend(), force: true });
+  const requests: Request[] = [];
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    (request) => {
+      requests.push(request);
+      return handler(request);
+    },
+  );
+  try {
+    await fn(
+      cachedFetch("cached-fetch-test", options),
+      `http://127.0.0.1:${server.addr.port}/resource`,
+      requests,
+      server,
+    );
+  } finally {
+    await server.shutdown();
+  }
+}
+
+Deno.test("cachedFetch serves fresh responses from the cache", async () => {
+  await withServer(
+    () => new Response("fresh", { headers: { "cache-control": "max-age=60" } }),
+    async (fetchWithCache, url, requests) => {
+      assertEquals(await (await fetchWithCache(url)).text(), "fresh");
+      const res = await fetchWithCache(url);
+      assertEquals(await res.text(), "fresh");
+      assertEquals(res.headers.get("age"), "0");
+      assertEquals(res.headers.has("x-cached-fetch-response-time"), false);
+      assertEquals(requests.length, 1);
+    },
+  );
+});
+
+Deno.test("cachedFetch stores responses as the server sent them", async () => {
+  await withServer(
+    () =>
+      new Response("stored", {
+        headers: { "cache-control": "max-age=60", "x-custom": "kept" },
+      }),
+    async (fetchWithCache, url, requests) => {
+      await (await fetchWithCache(url)).text();
+      await fetchWithCache.flush();
+
+      const stored = await (await caches.open("cached-fetch-test")).match(url);
+      assertEquals(await stored?.text(), "stored");
+      assertEquals(stored?.headers.get("x-custom"), "kept");
+      assertEquals(
+        [...stored!.headers.keys()].filter((name) =>
+          name.startsWith("x-cached-fetch")
+        ),
+        [],
+      );
+      assertEquals(stored?.headers.has("age"), false);
+
+      // The times are kept aside, so another instance still serves it fresh
+      const res = await cachedFetch("cached-fetch-test")(url);
+      assertEquals(await res.text(), "stored");
+      assertEquals(res.headers.get("age"), "0");
+      assertEquals(requests.length, 1);
+    },
+  );
+});
+
+Deno.test("cachedFetch streams responses while storing them", async () => {
+  const encoder = new TextEncoder();
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => release = resolve);
+  let releasedByTimer = false;
+  // Don't hang when the body is only handed over once fully stored
+  const timer = setTimeout(() => {
+    releasedByTimer = true;
+    release();
+  }, 5000);
+  await withServer(
+    () =>
+      new Response(
+        new ReadableStream({
+          async start(controller) {
+            controller.enqueue(encoder.encode("first "));
+            await released;
+            controller.enqueue(encoder.encode("second"));
+            controller.close();
+          },
+        }),
+        { headers: { "cache-control": "max-age=60" } },
+      ),
+    async (fetchWithCache, url, requests) => {
+      const res = await fetchWithCache(url);
+      const reader = res.body!.pipeThrough(new TextDecoderStream())
+        .getReader();
+      assertEquals((await reader.read()).value, "first ");
+      assertEquals(releasedByTimer, false);
+      const cache = await caches.open("cached-fetch-test");
+      assertEquals(await cache.match(url), undefined);
+
+      release();
+      let rest = "";
+      for (let chunk; !(chunk = await reader.read()).done;) rest += chunk.value;
+      assertEquals(rest, "second");
+      await fetchWithCache.flush();
+      assertEquals(await (await cache.match(url))?.text(), "first second");
+      assertEquals(await (await fetchWithCache(url)).text(), "first second");
+      assertEquals(requests.length, 1);
+    },
+  );
+  clearTimeout(timer);
+});
+
+Deno.test("cachedFetch uses heuristic freshness and Expires", async () => {
+  const day = 24 * 60 * 60 * 1000;
+  await withServer(
+    (request) =>
+      new URL(request.url).pathname === "/resource"
+        // Modified 10 days ago, so fresh for a day
+        ? new Response("heuristic", {
+          headers: {
+            "date": new Date().toUTCString(),
+            "last-modified": new Date(Date.now() - 10 * day).toUTCString(),
+          },
+        })
+        : new Response("expired", { headers: { "expires": "0" } }),
+    async (fetchWithCache, url, requests) => {
+      for (let i = 0; i < 2; i++) {
+        assertEquals(await (await fetchWithCache(url)).text(), "heuristic");
+        assertEquals(
+          await (await fetchWithCache(url + "-expired")).text(),
+          "expired",
+        );
+      }
+      assertEquals(
+        requests.map((request) => new URL(request.url).pathname),
+        ["/resource", "/resource-expired", "/resource-expired"],
+      );
+    },
+  );
+});
+
+Deno.test("cachedFetch revalidates stale responses", async () => {
+  const lastModified = new Date(Date.now() - 60_000).toUTCString();
+  let version = 1;
+  await withServer(
+    (request) => {
+      if (request.headers.get("if-none-match") === `"v${version}"`) {
+        return new Response(null, {
+          status: 304,
+          headers: { "cache-control": "no-cache", "x-refreshed": "yes" },
+        });
+      }
+      return new Response(`body v${version}`, {
+        headers: {
+          "cache-control": "no-cache",
+          "etag": `"v${version}"`,
+          "last-modified": lastModified,
+        },
+      });
+    },
+    async (fetchWithCache, url, requests) => {
+      assertEquals(await (await fetchWithCache(url)).text(), "body v1");
+
+      // 304: the stored body is served with refreshed headers
+      const revalidated = await fetchWithCache(url);
+      assertEquals(revalidated.status, 200);
+      assertEquals(await revalidated.text(), "body v1");
+      assertEquals(revalidated.headers.get("x-refreshed"), "yes");
+      assertEquals(requests[1].headers.get("if-none-match"), `"v1"`);
+      assertEquals(requests[1].headers.get("if-modified-since"), lastModified);
+      // The refreshed headers are stored
+      assertEquals(
+        (await fetchWithCache(url)).headers.get("x-refreshed"),
+        "yes",
+      );
+
+      // 200: the new response replaces the stored one
+      version = 2;
+      assertEquals(await (await fetchWithCache(url)).text(), "body v2");
+      assertEquals(await (await fetchWithCache(url)).text(), "body v2");
+      assertEquals(requests.length, 5);
+    },
+  );
+});
+
+Deno.test("cachedFetch serves stale responses when the server fails", async () => {
+  let failing = false;
+  await withServer(
+    (request) => {
+      if (failing) return new Response("oops", { status: 503 });
+      const cacheControl = new URL(request.url).pathname === "/resource"
+        ? "max-age=0, stale-if-error=60"
+        : "max-age=0, must-revalidate";
+      return new Response("stored", {
+        headers: { "cache-control": cacheControl },
+      });
+    },
+    async (fetchWithCache, url, _requests, server) => {
+      const strictUrl = url + "-strict";
+      await (await fetchWithCache(url)).text();
+      await (await fetchWithCache(strictUrl)).text();
+
+      failing = true;
+      assertEquals(await (await fetchWithCache(url)).text(), "stored");
+      // must-revalidate responses are never served stale
+      const res = await fetchWithCache(strictUrl);
+      assertEquals(res.status, 503);
+      await res.body?.cancel();
+
+      await server.shutdown();
+      assertEquals(await (await fetchWithCache(url)).text(), "stored");
+      await assertRejects(() => fetchWithCache(strictUrl), TypeError);
+    },
+  );
+});
+
+Deno.test("cachedFetch staleIfError option allows stale responses offline", async () => {
+  await withServer(
+    () => new Response("stored", { headers: { "cache-control": "max-age=0" } }),
+    async (fetchWithCache, url, _requests, server) => {
+      await (await fetchWithCache(url)).text();
+      await server.shutdown();
+      assertEquals(await (await fetchWithCache(url)).text(), "stored");
+    },
+    { staleIfError: Infinity },
+  );
+});
+
+Deno.test("cachedFetch honours no-store and unsafe methods", async () => {
+  await withServer(
+    (request) =>
+      new Response(request.method, {
+        headers: {
+          "cache-control": new URL(request.url).pathname === "/resource"
+            ? "max-age=60"
+            : "no-store",
+        },
+      }),
+    async (fetchWithCache, url, requests) => {
+      await (await fetchWithCache(url + "-no-store")).text();
+      await (await fetchWithCache(url + "-no-store")).text();
+      assertEquals(requests.length, 2);
+
+      await (await fetchWithCache(url)).text();
+      await (await fetchWithCache(url)).text();
+      assertEquals(requests.length, 3);
+      // A POST to the URL removes the stored response
+      assertEquals(
+        await (await fetchWithCache(url, { method: "POST" })).text(),
+        "POST",
+      );
+      assertEquals(await (await fetchWithCache(url)).text(), "GET");
+      assertEquals(requests.length, 5);
+    },
+  );
+});
+
+Deno.test("cachedFetch honours request directives", async () => {
+  await withServer(
+    () => new Response("body", { headers: { "cache-control": "max-age=60" } }),
+    async (fetchWithCache, url, requests) => {
+      const onlyIfCached = { headers: { "cache-control": "only-if-cached" } };
+      assertEquals((await fetchWithCache(url, onlyIfCached)).status, 504);
+      assertEquals(requests.length, 0);
+
+      await (await fetchWithCache(url)).text();
+      assertEquals(
+        await (await fetchWithCache(url, onlyIfCached)).text(),
+        "body",
+      );
+      const noCache = { headers: { "cache-control": "no-cache" } };
+      await (await fetchWithCache(url, noCache)).text();
+      assertEquals(requests.length, 2);
+      const maxAge = { headers: { "cache-control": "max-age=0" } };
+      await (await fetchWithCache(url, maxAge)).text();
+      assertEquals(requests.length, 3);
+      const maxStale = {
+        headers: { "cache-control": "max-age=0, max-stale" },
+      };
+      await (await fetchWithCache(url, maxStale)).text();
+      assertEquals(requests.length, 3);
+      // A request's no-store doesn't remove the stored response
+      const noStore = { headers: { "cache-control": "no-store, no-cache" } };
+      await (await fetchWithCache(url, noStore)).text();
+      assertEquals(requests.length, 4);
+      await (await fetchWithCache(url)).text();
+      assertEquals(requests.length, 4);
+    },
+  );
+});
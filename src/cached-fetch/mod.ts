@@ -0,0 +1,503 @@
+/**
+ * HTTP caching fetch for Deno standalone executables
+ *
+ * This module provides a `fetch` wrapper that keeps responses in a Cache API cache and
+ * follows the HTTP caching rules of RFC 9111: fresh responses are served without a
+ * request, stale ones are revalidated with `If-None-Match`/`If-Modified-Since`, and with
+ * `stale-if-error` they are served when the server can't be reached, e.g. offline.
+ *
+ * In compiled executables the responses are kept by the caches polyfill, so they persist
+ * between runs.
+ *
+ * ## Limitations
+ *
+ * - It behaves like a private (browser) cache: responses marked `private` or sent for
+ *   requests with an `Authorization` header are stored too.
+ * - Only `GET` requests are cached. Requests with their own conditional or `Range`
+ *   headers are passed through.
+ * - The times needed to compute the age of a stored response are kept in a second cache named
+ *   `cached-fetch-times:<cacheName>`, so the stored responses stay as the server sent them.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * import { cachedFetch } from "jsr:@sigma/deno-compile-extra/cachedFetch";
+ *
+ * const fetchWithCache = cachedFetch("http-v1", { staleIfError: 7 * 24 * 60 * 60 });
+ *
+ * const res = await fetchWithCache("https://example.com/data.json");
+ * console.log(await res.json());
+ * ```
+ *
+ * @module
+ */
+import "../caches-polyfill/mod.ts";
+
+/** Options for {@linkcode cachedFetch}. */
+export interface CachedFetchOptions {
+  /**
+   * Where to open the cache. Defaults to `globalThis.caches`, which is the
+   * caches polyfill in compiled executables.
+   */
+  caches?: CacheStorage;
+  /** Function making the actual requests. Defaults to `globalThis.fetch`. */
+  fetch?: typeof fetch;
+  /**
+   * How many seconds a stale response may still be used when the server
+   * can't be reached or answers with a 5xx error, on top of what the
+   * `stale-if-error` directives of the response and request allow. Responses
+   * with `must-revalidate` are never used stale.
+   *
+   * Defaults to `0`, `Infinity` allows any stale response.
+   */
+  staleIfError?: number;
+}
+
+/** A `fetch` compatible function returned by {@linkcode cachedFetch}. */
+export interface CachedFetch {
+  (input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
+  /**
+   * Waits until the responses that are still being stored in the background
+   * are stored, e.g. before exiting.
+   */
+  flush(): Promise<void>;
+}
+
+// When the request was sent and the response received, needed to compute the
+// age of a stored response (RFC 9111 section 4.2.3)
+interface ResponseTimes {
+  requestTime: number;
+  responseTime: number;
+}
+
+// The times are stored under the same request in a second cache with this
+// prefix, instead of in headers that other readers of the cache would see
+const TIMES_CACHE_PREFIX = "cached-fetch-times:";
+
+// Status codes that can be cached without explicit freshness information
+// (RFC 9110 section 15.1)
+const HEURISTICALLY_CACHEABLE_STATUSES = new Set([
+  200,
+  203,
+  204,
+  300,
+  301,
+  308,
+  404,
+  405,
+  410,
+  414,
+  501,
+]);
+
+// Status codes whose responses can't have a body
+const NULL_BODY_STATUSES = new Set([101, 103, 204, 205, 304]);
+
+// Headers of a 304 response that don't replace the stored ones (RFC 9111
+// section 3.2)
+const EXCLUDED_UPDATE_HEADERS = new Set([
+  "content-length",
+  "connection",
+  "keep-alive",
+  "proxy-connection",
+  "te",
+  "transfer-encoding",
+  "upgrade",
+]);
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS", "TRACE"]);
+
+// Parses a Cache-Control header into its directives, lowercased, mapped to
+// their unquoted argument or "" if they have none
+function parseCacheControl(value: string | null): Map<string, string> {
+  const directives = new Map<string, string>();
+  const directive =
+    /([!#$%&'*+.^_`|~0-9A-Za-z-]+)(?:\s*=\s*("(?:[^"\\]|\\.)*"|[^,\s]*))?/g;
+  for (const [, name, argument = ""] of (value ?? "").matchAll(directive)) {
+    const unquoted = argument.startsWith('"')
+      ? argument.slice(1, -1).replace(/\\(.)/g, "$1")
+      : argument;
+    directives.set(name.toLowerCase(), unquoted);
+  }
+  return directives;
+}
+
+// Parses the argument of a directive like max-age in seconds, treating
+// invalid values as 0
+function deltaSeconds(
+  directives: Map<string, string>,
+  name: string,
+): number | undefined {
+  const value = directives.get(name);
+  if (value === undefined) return undefined;
+  return /^\d+$/.test(value) ? Number(value) : 0;
+}
+
+function parseDate(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// How long the response stays fresh in seconds (RFC 9111 section 4.2.1)
+function freshnessLifetime(response: Response, times: ResponseTimes): number {
+  const directives = parseCacheControl(response.headers.get("cache-control"));
+  const maxAge = deltaSeconds(directives, "max-age");
+  if (maxAge !== undefined) return maxAge;
+
+  const date = parseDate(response.headers.get("date")) ?? times.responseTime;
+  const expires = response.headers.get("expires");
+  if (expires !== null) {
+    // Invalid dates, like "0", mean already expired
+    const expiresTime = parseDate(expires) ?? 0;
+    return Math.max(0, (expiresTime - date) / 1000);
+  }
+
+  // Heuristic freshness: 10% of the time since the last modification
+  const lastModified = parseDate(response.headers.get("last-modified"));
+  if (
+    lastModified !== undefined &&
+    HEURISTICALLY_CACHEABLE_STATUSES.has(response.status)
+  ) {
+    return Math.max(0, (date - lastModified) / 1000 / 10);
+  }
+  return 0;
+}
+
+// Age of a stored response in seconds (RFC 9111 section 4.2.3)
+function currentAge(
+  response: Response,
+  { requestTime, responseTime }: ResponseTimes,
+  now: number,
+): number {
+  const date = parseDate(response.headers.get("date")) ?? responseTime;
+  const ageValue = Number(response.headers.get("age")) || 0;
+
+  const apparentAge = Math.max(0, responseTime - date) / 1000;
+  const responseDelay = (responseTime - requestTime) / 1000;
+  const correctedInitialAge = Math.max(apparentAge, ageValue + responseDelay);
+  return correctedInitialAge + (now - responseTime) / 1000;
+}
+
+// Whether the response may be stored (RFC 9111 section 3), leaving out the
+// request's no-store, which only concerns this exchange
+function isStorable(response: Response): boolean {
+  const directives = parseCacheControl(response.headers.get("cache-control"));
+  if (directives.has("no-store")) return false;
+  // Partial content and Vary: * can't be stored in a Cache
+  if (
+    response.status === 206 || response.status < 200 ||
+    response.headers.get("vary")?.includes("*")
+  ) {
+    return false;
+  }
+  return directives.has("max-age") || directives.has("public") ||
+    directives.has("private") || response.headers.has("expires") ||
+    HEURISTICALLY_CACHEABLE_STATUSES.has(response.status);
+}
+
+// Copies response with the given headers, dropping the body of statuses that
+// can't have one
+function withHeaders(response: Response, headers: Headers): Response {
+  return new Response(
+    NULL_BODY_STATUSES.has(response.status) ? null : response.body,
+    { status: response.status, statusText: response.statusText, headers },
+  );
+}
+
+/**
+ * Creates a `fetch` function that keeps responses in the cache `cacheName`,
+ * following the HTTP caching rules of RFC 9111:
+ *
+ * - Fresh responses, according to `Cache-Control: max-age`, `Expires` or a
+ *   heuristic based on `Last-Modified`, are served from the cache without a
+ *   request. Their `Age` header says how old they are.
+ * - Stale responses are revalidated with `If-None-Match` (`ETag`) and
+ *   `If-Modified-Since` (`Last-Modified`). A `304 Not Modified` answer
+ *   refreshes the stored headers and serves the stored body.
+ * - When the server can't be reached or answers with a 5xx error, a stale
+ *   response is served if `stale-if-error` (the directive or the
+ *   `staleIfError` option) allows it.
+ * - `no-store` responses aren't stored, `no-cache` ones are always
+ *   revalidated. Request directives (`no-cache`, `no-store`, `max-age`,
+ *   `max-stale`, `min-fresh`, `only-if-cached`) are honoured too.
+ * - A successful non-GET request, like a `POST`, removes the stored responses
+ *   for its URL.
+ * - Responses are returned as soon as their headers arrive, and stored in the
+ *   background while the caller streams the body. A failed store is logged
+ *   instead of failing the fetch, and `flush()` waits for pending stores.
+ *
+ * @example
+ * ```ts
+ * import { cachedFetch } from "jsr:@sigma/deno-compile-extra/cachedFetch";
+ *
+ * const fetchWithCache = cachedFetch("http-v1");
+ *
+ * // Served from the cache while fresh, revalidated once stale
+ * const res = await fetchWithCache("https://example.com/data.json");
+ * console.log(res.headers.get("age"), await res.json());
+ * ```
+ */
+export function cachedFetch(
+  cacheName: string,
+  options: CachedFetchOptions = {},
+): CachedFetch {
+  const storage = () => options.caches ?? globalThis.caches;
+  let cachePromise: Promise<Cache> | undefined;
+  const openCache = () => cachePromise ??= storage().open(cacheName);
+  let timesCachePromise: Promise<Cache> | undefined;
+  const openTimesCache = () =>
+    timesCachePromise ??= storage().open(TIMES_CACHE_PREFIX + cacheName);
+  const fetchFn = options.fetch ?? globalThis.fetch;
+  const staleIfErrorOption = options.staleIfError ?? 0;
+
+  // Stores the times of the stored response to request, with its Vary header
+  // so that they are matched like the response
+  const storeTimes = async (
+    request: Request,
+    response: Response,
+    times: ResponseTimes,
+  ): Promise<void> => {
+    const vary = response.headers.get("vary");
+    await (await openTimesCache()).put(
+      request,
+      new Response(JSON.stringify(times), {
+        headers: vary === null ? {} : { vary },
+      }),
+    );
+  };
+
+  // Times of the stored response to request. Without them, e.g. when the
+  // response was stored by someone else, it is treated as received at its
+  // Date, or as stale
+  const matchTimes = async (
+    request: Request,
+    cached: Response,
+  ): Promise<ResponseTimes> => {
+    const stored = await (await openTimesCache()).match(request);
+    if (stored !== undefined) {
+      try {
+        const { requestTime, responseTime } = await stored.json();
+        if (Number.isFinite(requestTime) && Number.isFinite(responseTime)) {
+          return { requestTime, responseTime };
+        }
+      } catch {
+        // Treated like missing times
+      }
+    }
+    const date = parseDate(cached.headers.get("date")) ?? 0;
+    return { requestTime: date, responseTime: date };
+  };
+
+  // Stores a response with when it was requested and received
+  const store = async (
+    request: Request,
+    response: Response,
+    times: ResponseTimes,
+  ): Promise<void> => {
+    await (await openCache()).put(request, response);
+    await storeTimes(request, response, times);
+  };
+
+  // Stores still running in the background, chained by URL so that they land
+  // in order and a later read or removal of the URL can wait for them
+  const pendingStores = new Map<string, Promise<void>>();
+
+  // Stores a response while its other tee branch is streamed to the caller. A
+  // failure, e.g. a body that errors halfway, is for the caller to see, so the
+  // store only warns
+  const storeInBackground = (
+    request: Request,
+    response: Response,
+    times: ResponseTimes,
+  ): void => {
+    const pending = (pendingStores.get(request.url) ?? Promise.resolve())
+      .then(() => store(request, response, times))
+      .catch((error) => {
+        console.warn(`Failed to cache the response to ${request.url}:`, error);
+      })
+      .finally(() => {
+        if (pendingStores.get(request.url) === pending) {
+          pendingStores.delete(request.url);
+        }
+      });
+    pendingStores.set(request.url, pending);
+  };
+
+  const flush = async (): Promise<void> => {
+    while (pendingStores.size > 0) {
+      await Promise.all(pendingStores.values());
+    }
+  };
+
+  // Removes the stored responses to request
+  const remove = async (
+    request: Request | string,
+    options?: CacheQueryOptions,
+  ): Promise<void> => {
+    const url = typeof request === "string" ? request : request.url;
+    await pendingStores.get(url);
+    await (await openCache()).delete(request, options);
+    await (await openTimesCache()).delete(request, options);
+  };
+
+  // Prepares a stored response for the caller
+  const serve = (
+    cached: Response,
+    times: ResponseTimes,
+    now: number,
+  ): Response => {
+    const headers = new Headers(cached.headers);
+    headers.set("age", String(Math.floor(currentAge(cached, times, now))));
+    return withHeaders(cached, headers);
+  };
+
+  const fetchWithCache = async (
+    input: RequestInfo | URL,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+
+    if (request.method !== "GET") {
+      const response = await fetchFn(request);
+      // Unsafe methods change the resource, so stored responses are outdated
+      // (RFC 9111 section 4.4)
+      if (!SAFE_METHODS.has(request.method) && response.status < 400) {
+        await remove(request.url, { ignoreVary: true });
+      }
+      return response;
+    }
+    // Requests with their own validators expect the server's answer
+    if (
+      request.headers.has("if-none-match") ||
+      request.headers.has("if-modified-since") ||
+      request.headers.has("range")
+    ) {
+      return await fetchFn(request);
+    }
+
+    const requestDirectives = parseCacheControl(
+      request.headers.get("cache-control"),
+    );
+    await pendingStores.get(request.url);
+    const cached = await (await openCache()).match(request);
+    const now = Date.now();
+
+    if (cached === undefined) {
+      if (requestDirectives.has("only-if-cached")) {
+        return new Response(null, {
+          status: 504,
+          statusText: "Gateway Timeout",
+        });
+      }
+      const response = await fetchFn(request);
+      if (!requestDirectives.has("no-store") && isStorable(response)) {
+        storeInBackground(request, response.clone(), {
+          requestTime: now,
+          responseTime: Date.now(),
+        });
+      }
+      return response;
+    }
+
+    const times = await matchTimes(request, cached);
+    const directives = parseCacheControl(cached.headers.get("cache-control"));
+    const age = currentAge(cached, times, now);
+    const lifetime = Math.min(
+      freshnessLifetime(cached, times),
+      deltaSeconds(requestDirectives, "max-age") ?? Infinity,
+    );
+    const minFresh = deltaSeconds(requestDirectives, "min-fresh") ?? 0;
+    const staleness = age - lifetime;
+    // A max-stale without an argument accepts any staleness
+    const maxStale = requestDirectives.get("max-stale") === ""
+      ? Infinity
+      : deltaSeconds(requestDirectives, "max-stale");
+    const mustRevalidate = directives.has("must-revalidate") ||
+      directives.has("proxy-revalidate");
+    const needsValidation = directives.has("no-cache") ||
+      requestDirectives.has("no-cache");
+
+    if (!needsValidation) {
+      if (age + minFresh < lifetime) return serve(cached, times, now);
+      if (!mustRevalidate && maxStale !== undefined && staleness <= maxStale) {
+        return serve(cached, times, now);
+      }
+    }
+    if (requestDirectives.has("only-if-cached")) {
+      await cached.body?.cancel();
+      return new Response(null, { status: 504, statusText: "Gateway Timeout" });
+    }
+
+    const staleIfError = Math.max(
+      staleIfErrorOption,
+      deltaSeconds(directives, "stale-if-error") ?? 0,
+      deltaSeconds(requestDirectives, "stale-if-error") ?? 0,
+    );
+    const canServeStale = !mustRevalidate && staleness <= staleIfError;
+
+    const conditionalRequest = new Request(request);
+    const etag = cached.headers.get("etag");
+    const lastModified = cached.headers.get("last-modified");
+    if (etag !== null) conditionalRequest.headers.set("if-none-match", etag);
+    if (lastModified !== null) {
+      conditionalRequest.headers.set("if-modified-since", lastModified);
+    }
+
+    let response: Response;
+    try {
+      response = await fetchFn(conditionalRequest);
+    } catch (error) {
+      if (canServeStale) return serve(cached, times, Date.now());
+      await cached.body?.cancel();
+      throw error;
+    }
+    const responseTime = Date.now();
+
+    if (response.status === 304 && (etag !== null || lastModified !== null)) {
+      // Refresh the stored headers and keep the stored body (RFC 9111
+      // section 4.3.4)
+      const headers = new Headers(cached.headers);
+      for (const [name, value] of response.headers) {
+        if (!EXCLUDED_UPDATE_HEADERS.has(name)) headers.set(name, value);
+      }
+      const body = NULL_BODY_STATUSES.has(cached.status) ? null : cached.body;
+      const [storedBody, servedBody] = body?.tee() ?? [null, null];
+      const responseInit = {
+        status: cached.status,
+        statusText: cached.statusText,
+        headers,
+      };
+      const refreshedTimes = { requestTime: now, responseTime };
+      storeInBackground(
+        request,
+        new Response(storedBody, responseInit),
+        refreshedTimes,
+      );
+      return serve(
+        new Response(servedBody, responseInit),
+        refreshedTimes,
+        responseTime,
+      );
+    }
+
+    if (response.status >= 500 && canServeStale) {
+      await response.body?.cancel();
+      return serve(cached, times, responseTime);
+    }
+    await cached.body?.cancel();
+    // A request's no-store keeps this response out of the cache, but leaves
+    // the stored one to other requests
+    if (requestDirectives.has("no-store")) return response;
+    if (isStorable(response)) {
+      storeInBackground(request, response.clone(), {
+        requestTime: now,
+        responseTime,
+      });
+    } else {
+      await remove(request);
+    }
+    return response;
+  };
+  return Object.assign(fetchWithCache, { flush });
+}
@@ -1,6 +1,13 @@
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertRejects } from "@std/assert";
 import * as path from "@std/path";
-import { exists } from "@std/fs";
+import { copy, exists, walk } from "@std/fs";
+import type { PolyfillCache } from "./mod.ts";
+import type { UpdateFn } from "../backends/mod.ts";
+
+// The test scripts live in temp dirs, so point `deno run` at our import map
+const denoConfigPath = path.fromFileUrl(
+  new URL("../../deno.json", import.meta.url),
+);
 
 // Helper function to compile a Deno script and return the path to the executable
 async function compileDenoScript(scriptPath: string): Promise<string> {
@@ -40,6 +47,95 @@ async function compileDenoScript(scriptPath: string): Promise<string> {
   return exePath;
 }
 
+// Helper function to write a test script next to a copy of the polyfill,
+// returning the temp dir and the script path
+async function createTestApp(
+  testScriptContent: string,
+): Promise<{ tempDir: string; testScriptPath: string }> {
+  const tempDir = await Deno.makeTempDir({ prefix: "cache_test_app_" });
+
+  // Copy the whole src dir, so the script can import "./mod.ts" and "../utils.ts"
+  console.log("Copying files to temp directory:", tempDir);
+  await copy(
+    path.fromFileUrl(new URL("../", import.meta.url)),
+    path.join(tempDir, "src"),
+  );
+  const testScriptPath = path.join(
+    tempDir,
+    "src",
+    "caches-polyfill",
+    "test_app.ts",
+  );
+  await Deno.writeTextFile(testScriptPath, testScriptContent);
+  console.log("Test script written to:", testScriptPath);
+  return { tempDir, testScriptPath };
+}
+
+// Helper function to copy the polyfill next to a test script, run it and
+// assert that it exits successfully. "compiled" runs it as a standalone
+// executable (polyfill active), "native" runs it with `deno run` (native Cache
+// API). Returns the script's stdout.
+async function runTestScript(
+  testScriptContent: string,
+  mode: "compiled" | "native" = "compiled",
+): Promise<string> {
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
+
+  try {
+    // --- Step 2: Compile the test script (compiled mode only) ---
+    const [command, args] = mode === "compiled"
+      ? [await compileDenoScript(testScriptPath), []]
+      : [Deno.execPath(), [
+        "run",
+        "-A",
+        "--config",
+        denoConfigPath,
+        testScriptPath,
+      ]];
+
+    // --- Step 3: Run the test script ---
+    console.log(`Running ${mode} test script: ${command} ${args.join(" ")}`);
+    const runProcess = new Deno.Command(command, {
+      args,
+      cwd: tempDir, // Run from the temp directory where cache files will be created
+      stdin: "null",
+      stdout: "piped",
+      stderr: "piped",
+    });
+
+    const output = await runProcess.output();
+    const status = output.code; // Use output.code for exit status
+
+    const decoder = new TextDecoder();
+    const outStr = decoder.decode(output.stdout);
+    const errStr = decoder.decode(output.stderr);
+
+    console.log("--- Compiled Executable STDOUT ---");
+    console.log(outStr);
+    console.log("--- Compiled Executable STDERR ---");
+    console.log(errStr);
+    console.log("--- End Output ---");
+    console.log(`Executable finished with code: ${status}`);
+
+    // --- Step 4: Check the output ---
+    assertEquals(
+      status,
+      0, // Expect success (exit code 0) from the test script
+      `Test script failed (Exit code: ${status}):\n STDERR: ${errStr}\n STDOUT: ${outStr}`,
+    );
+    return outStr;
+  } finally {
+    // --- Step 5: Clean up ---
+    console.log("Cleaning up temporary directory:", tempDir);
+    await Deno.remove(tempDir, { recursive: true }).catch((err) => {
+      console.error(`Failed to remove temp directory ${tempDir}:`, err);
+    });
+    // We don't delete the compilation output dir directly, as compileDenoScript uses a separate temp dir for that
+    // Deno should clean that up itself, or we could track and delete it too if necessary.
+    console.log("Cleanup complete.");
+  }
+}
+
 Deno.test("Caches polyfill in compiled executable", async (_t) => {
   // --- Step 1: Create a temporary test script ---
   const testScriptContent = `
@@ -129,70 +225,1252 @@ Deno.test("Caches polyfill in compiled executable", async (_t) => {
     }
   `;
 
-  const tempDir = await Deno.makeTempDir({ prefix: "cache_test_app_" });
-  const testScriptPath = path.join(tempDir, "test_app.ts");
+  await runTestScript(testScriptContent);
+});
+
+Deno.test("Caches polyfill honours CacheQueryOptions", async () => {
+  // Cases mirror the "request matches cached item" algorithm of the spec
+  const testScriptContent = `
+    import { setupCachesPolyfill } from "./mod.ts";
+    import { assertEquals, assert } from "jsr:@std/assert@1.0.11";
+
+    await setupCachesPolyfill();
+
+    async function runTests() {
+      const cache = await caches.open("query-options-v1");
+
+      // --- ignoreSearch ---
+      await cache.put("https://example.com/app.js?v=1", new Response("app v1"));
+      assertEquals(await cache.match("https://example.com/app.js?v=2"), undefined);
+      assertEquals(await cache.match("https://example.com/app.js"), undefined);
+      const bySearch = await cache.match("https://example.com/app.js?v=2", { ignoreSearch: true });
+      assert(bySearch, "ignoreSearch should match a different query string");
+      assertEquals(await bySearch.text(), "app v1");
+      assert(await cache.match("https://example.com/app.js", { ignoreSearch: true }));
+
+      // Fragments are never part of the comparison
+      assert(await cache.match("https://example.com/app.js?v=1#main"));
+
+      // --- ignoreMethod ---
+      const head = new Request("https://example.com/app.js?v=1", { method: "HEAD" });
+      assertEquals(await cache.match(head), undefined, "HEAD should not match by default");
+      const byMethod = await cache.match(head, { ignoreMethod: true });
+      assert(byMethod, "ignoreMethod should let HEAD match a GET entry");
+      assertEquals(await byMethod.text(), "app v1");
+      assertEquals(await cache.delete(head), false, "delete with HEAD should be a no-op");
+
+      // --- Vary ---
+      await cache.put(
+        new Request("https://example.com/greeting", { headers: { "Accept-Language": "en" } }),
+        new Response("hello", { headers: { "Vary": "Accept-Language" } }),
+      );
+      const en = await cache.match(
+        new Request("https://example.com/greeting", { headers: { "Accept-Language": "en" } }),
+      );
+      assert(en, "same varied header value should match");
+      assertEquals(await en.text(), "hello");
+      assertEquals(
+        await cache.match(
+          new Request("https://example.com/greeting", { headers: { "Accept-Language": "fr" } }),
+        ),
+        undefined,
+        "different varied header value should not match",
+      );
+      assertEquals(
+        await cache.match("https://example.com/greeting"),
+        undefined,
+        "missing varied header should not match a stored value",
+      );
+      assert(
+        await cache.match(
+          new Request("https://example.com/greeting", { headers: { "Accept-Language": "fr" } }),
+          { ignoreVary: true },
+        ),
+        "ignoreVary should skip the Vary check",
+      );
+
+      // Every header listed in Vary has to match
+      await cache.put(
+        new Request("https://example.com/asset", {
+          headers: { "Accept-Language": "en", "Accept-Encoding": "gzip" },
+        }),
+        new Response("asset", { headers: { "Vary": "Accept-Language, Accept-Encoding" } }),
+      );
+      assert(
+        await cache.match(
+          new Request("https://example.com/asset", {
+            headers: { "Accept-Language": "en", "Accept-Encoding": "gzip" },
+          }),
+        ),
+      );
+      assertEquals(
+        await cache.match(
+          new Request("https://example.com/asset", {
+            headers: { "Accept-Language": "en", "Accept-Encoding": "br" },
+          }),
+        ),
+        undefined,
+      );
+
+      // --- delete with options ---
+      await cache.put("https://example.com/app.js?v=2", new Response("app v2"));
+      assertEquals(await cache.delete("https://example.com/app.js"), false);
+      assert(await cache.delete("https://example.com/app.js", { ignoreSearch: true }));
+      assertEquals(await cache.match("https://example.com/app.js?v=1"), undefined);
+      assertEquals(await cache.match("https://example.com/app.js?v=2"), undefined, "delete should remove every match");
+
+      await caches.delete("query-options-v1");
+    }
+
+    try {
+      await runTests();
+      Deno.exit(0);
+    } catch (err) {
+      console.error("Error during test script execution:", err);
+      Deno.exit(1);
+    }
+  `;
+
+  await runTestScript(testScriptContent);
+});
+
+Deno.test("Caches polyfill keeps Vary variants and migrates old files", async () => {
+  const testScriptContent = `
+    import { setupCachesPolyfill } from "./mod.ts";
+    import { storageDir } from "../utils.ts";
+    import { assertEquals, assert } from "jsr:@std/assert@1.0.11";
+
+    // Mirror the storage location computed by the polyfill
+    async function storageRoot() {
+      const data = new TextEncoder().encode(new URL("./mod.ts", import.meta.url).href);
+      const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+      const id = Array.from(hash).map((b) => b.toString(16).padStart(2, "0")).join("").slice(0, 16);
+      return await storageDir("cache") + "/deno-cache-api/" + id;
+    }
+
+    // Mirror the file name the polyfill stores a cache under
+    async function storageName(cacheName) {
+      const data = new TextEncoder().encode(cacheName);
+      const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+      return "cache-" + Array.from(hash).map((b) => b.toString(16).padStart(2, "0")).join("");
+    }
+
+    // A file written by an older version: one entry per URL, keyed by URL
+    const root = await storageRoot();
+    await Deno.mkdir(root, { recursive: true });
+    await Deno.writeTextFile(root + "/legacy-v1.json", JSON.stringify({
+      entries: {
+        "https://example.com/old": {
+          request: { url: "https://example.com/old", method: "GET", headers: {} },
+          response: { status: 200, statusText: "", headers: { "content-type": "text/plain" }, body: btoa("old body") },
+        },
+      },
+    }));
+
+    await setupCachesPolyfill();
+
+    function withLanguage(language) {
+      return new Request("https://example.com/greeting", { headers: { "Accept-Language": language } });
+    }
+
+    async function runTests() {
+      // --- Legacy files are read without losing data ---
+      const legacy = await caches.open("legacy-v1");
+      const old = await legacy.match("https://example.com/old");
+      assert(old, "entry from the old format should still match");
+      assertEquals(await old.text(), "old body");
+      assertEquals(old.headers.get("content-type"), "text/plain");
+      await legacy.put("https://example.com/new", new Response("new body"));
+      const saved = JSON.parse(await Deno.readTextFile(root + "/legacy-v1.json"));
+      assertEquals(saved.version, 3);
+      assertEquals(saved.entries.length, 2);
+      assertEquals(saved.entries[0].response.body.size, "old body".length);
+      await caches.delete("legacy-v1");
+
+      // --- One entry per distinct set of varied headers ---
+      const cache = await caches.open("variants-v1");
+      const vary = { headers: { "Vary": "Accept-Language" } };
+      await cache.put(withLanguage("en"), new Response("hello", vary));
+      await cache.put(withLanguage("de"), new Response("hallo", vary));
+      assertEquals(await (await cache.match(withLanguage("en"))).text(), "hello");
+      assertEquals(await (await cache.match(withLanguage("de"))).text(), "hallo");
+      assertEquals(await cache.match(withLanguage("fr")), undefined);
+
+      // Putting the same variant again replaces it instead of adding another
+      await cache.put(withLanguage("en"), new Response("hi", vary));
+      assertEquals(await (await cache.match(withLanguage("en"))).text(), "hi");
+      assertEquals(await (await cache.match(withLanguage("de"))).text(), "hallo");
+
+      // ignoreVary returns the first stored variant
+      const first = await cache.match(withLanguage("fr"), { ignoreVary: true });
+      assertEquals(await first.text(), "hallo");
+
+      // Variants survive a reload from disk
+      const reloaded = JSON.parse(await Deno.readTextFile(root + "/" + await storageName("variants-v1") + ".json"));
+      assertEquals(reloaded.entries.length, 2);
 
+      // Deleting one variant keeps the other
+      assert(await cache.delete(withLanguage("de")));
+      assertEquals(await cache.match(withLanguage("de")), undefined);
+      assert(await cache.match(withLanguage("en")));
+
+      await caches.delete("variants-v1");
+    }
+
+    try {
+      await runTests();
+      Deno.exit(0);
+    } catch (err) {
+      console.error("Error during test script execution:", err);
+      Deno.exit(1);
+    }
+  `;
+
+  await runTestScript(testScriptContent);
+});
+
+Deno.test("Caches polyfill exposes keys and matchAll in full spec mode", async () => {
+  const testScriptContent = `
+    import { setupCachesPolyfill } from "./mod.ts";
+    import { assertEquals, assert } from "jsr:@std/assert@1.0.11";
+
+    async function runTests() {
+      // The default surface matches native Deno
+      await setupCachesPolyfill();
+      const defaultCache = await caches.open("full-spec-default");
+      assertEquals("keys" in defaultCache, false);
+      assertEquals("matchAll" in defaultCache, false);
+      assertEquals("keys" in caches, false);
+      assertEquals("match" in caches, false);
+
+      await setupCachesPolyfill({ fullSpec: true });
+      const cache = await caches.open("full-spec-v1");
+      await cache.put("https://example.com/a?v=1", new Response("a1"));
+      await cache.put("https://example.com/a?v=2", new Response("a2"));
+      await cache.put("https://example.com/b", new Response("b"));
+
+      // --- Cache.keys ---
+      const allKeys = await cache.keys();
+      assertEquals(allKeys.map((req) => req.url), [
+        "https://example.com/a?v=1",
+        "https://example.com/a?v=2",
+        "https://example.com/b",
+      ]);
+      assertEquals(allKeys[0].method, "GET");
+      assertEquals((await cache.keys("https://example.com/a")).length, 0);
+      assertEquals(
+        (await cache.keys("https://example.com/a", { ignoreSearch: true })).length,
+        2,
+      );
+
+      // --- Cache.matchAll ---
+      const all = await cache.matchAll();
+      assertEquals(await Promise.all(all.map((res) => res.text())), ["a1", "a2", "b"]);
+      const some = await cache.matchAll("https://example.com/a", { ignoreSearch: true });
+      assertEquals(await Promise.all(some.map((res) => res.text())), ["a1", "a2"]);
+      const head = new Request("https://example.com/b", { method: "HEAD" });
+      assertEquals((await cache.matchAll(head)).length, 0);
+      assertEquals((await cache.matchAll(head, { ignoreMethod: true })).length, 1);
+
+      // --- CacheStorage.keys and CacheStorage.match ---
+      const other = await caches.open("full-spec-v2");
+      await other.put("https://example.com/c", new Response("c"));
+      const names = await caches.keys();
+      assert(names.includes("full-spec-v1"));
+      assert(names.includes("full-spec-v2"));
+      assertEquals(await (await caches.match("https://example.com/c")).text(), "c");
+      assertEquals(
+        await caches.match("https://example.com/c", { cacheName: "full-spec-v1" }),
+        undefined,
+      );
+      assertEquals(
+        await caches.match("https://example.com/c", { cacheName: "missing" }),
+        undefined,
+      );
+
+      await caches.delete("full-spec-v1");
+      await caches.delete("full-spec-v2");
+      assertEquals((await caches.keys()).includes("full-spec-v1"), false);
+    }
+
+    try {
+      await runTests();
+      Deno.exit(0);
+    } catch (err) {
+      console.error("Error during test script execution:", err);
+      Deno.exit(1);
+    }
+  `;
+
+  await runTestScript(testScriptContent);
+});
+
+Deno.test("Caches polyfill validates put like native Deno", async () => {
+  // Runs every case and prints how it ended, so the polyfill can be compared
+  // against the native Cache API
+  const testScriptContent = `
+    import "./mod.ts";
+
+    const CACHE_NAME = "put-validation-v1";
+    const URL_A = "https://example.com/a";
+    const server = Deno.serve({ port: 0, onListen() {} }, (req) => {
+      const path = new URL(req.url).pathname;
+      if (path === "/partial") return new Response("part", { status: 206 });
+      if (path === "/star") return new Response("star", { headers: { "Vary": "*" } });
+      if (path === "/missing") return new Response("missing", { status: 404 });
+      return new Response("ok");
+    });
+    const base = "http://localhost:" + server.addr.port;
+
+    async function outcome(fn) {
+      try {
+        await fn();
+        return "ok";
+      } catch (err) {
+        return err.name;
+      }
+    }
+
+    const cache = await caches.open(CACHE_NAME);
+    const used = new Response("used");
+    await used.text();
+    const putResponse = new Response("consumed");
+
+    const putResults = {
+      "put GET": await outcome(() => cache.put(URL_A, new Response("a"))),
+      "put POST": await outcome(() =>
+        cache.put(new Request(URL_A, { method: "POST" }), new Response("a"))
+      ),
+      "put HEAD": await outcome(() =>
+        cache.put(new Request(URL_A, { method: "HEAD" }), new Response("a"))
+      ),
+      "put file: URL": await outcome(() => cache.put("file:///etc/hosts", new Response("a"))),
+      "put 206": await outcome(() => cache.put(URL_A, new Response("a", { status: 206 }))),
+      "put Vary *": await outcome(() =>
+        cache.put(URL_A, new Response("a", { headers: { "Vary": "Accept, *" } }))
+      ),
+      "put used body": await outcome(() => cache.put(URL_A, used)),
+      "put consumes body": await outcome(async () => {
+        await cache.put(URL_A, putResponse);
+        if (!putResponse.bodyUsed) throw new RangeError("body not consumed");
+      }),
+    };
+
+    // Native Deno has no add/addAll, so these only run against the polyfill
+    const addResults = typeof cache.add !== "function" ? null : {
+      "add": await outcome(() => cache.add(base + "/ok")),
+      "add POST": await outcome(() =>
+        cache.add(new Request(base + "/ok", { method: "POST" }))
+      ),
+      "add 206": await outcome(() => cache.add(base + "/partial")),
+      "add Vary *": await outcome(() => cache.add(base + "/star")),
+      "add 404": await outcome(() => cache.add(base + "/missing")),
+      "addAll with POST": await outcome(() =>
+        cache.addAll([base + "/ok", new Request(base + "/ok", { method: "POST" })])
+      ),
+      "addAll": await outcome(() => cache.addAll([base + "/ok", base + "/other"])),
+    };
+
+    await caches.delete(CACHE_NAME);
+    await server.shutdown();
+    console.log(JSON.stringify({ putResults, addResults }));
+  `;
+
+  const lastLine = (output: string) => output.trim().split("\n").at(-1)!;
+  const native = JSON.parse(
+    lastLine(await runTestScript(testScriptContent, "native")),
+  );
+  const compiled = JSON.parse(lastLine(await runTestScript(testScriptContent)));
+
+  assertEquals(compiled.putResults, native.putResults);
+  assertEquals(compiled.putResults["put POST"], "TypeError");
+  assertEquals(compiled.putResults["put 206"], "TypeError");
+  assertEquals(compiled.putResults["put Vary *"], "TypeError");
+  assertEquals(compiled.putResults["put used body"], "TypeError");
+  assertEquals(compiled.addResults, {
+    "add": "ok",
+    "add POST": "TypeError",
+    "add 206": "TypeError",
+    "add Vary *": "TypeError",
+    "add 404": "TypeError",
+    "addAll with POST": "TypeError",
+    "addAll": "ok",
+  });
+});
+
+Deno.test("Caches polyfill matches the native cache lifecycle", async () => {
+  // The same steps run against the polyfill (compiled) and the native Cache
+  // API (deno run), and must observe the same results
+  const testScriptContent = `
+    import "./mod.ts";
+
+    const CACHE_NAME = "lifecycle-" + crypto.randomUUID();
+    const URL_A = "https://example.com/a";
+    const URL_B = "https://example.com/b";
+
+    async function outcome(fn) {
+      try {
+        const result = await fn();
+        return result === undefined ? "ok" : result;
+      } catch (err) {
+        return err.name;
+      }
+    }
+
+    async function text(response) {
+      return response === undefined ? null : await response.text();
+    }
+
+    const results = {};
+    results["has before open"] = await outcome(() => caches.has(CACHE_NAME));
+    const cache = await caches.open(CACHE_NAME);
+    results["has after open"] = await outcome(() => caches.has(CACHE_NAME));
+    results["put"] = await outcome(() => cache.put(URL_A, new Response("a")));
+    results["match"] = await outcome(async () => text(await cache.match(URL_A)));
+
+    results["delete"] = await outcome(() => caches.delete(CACHE_NAME));
+    results["has after delete"] = await outcome(() => caches.has(CACHE_NAME));
+    results["delete again"] = await outcome(() => caches.delete(CACHE_NAME));
+
+    // Handles of a deleted cache find nothing and don't bring it back
+    results["old handle match"] = await outcome(async () => text(await cache.match(URL_A)));
+    results["old handle put"] = await outcome(() => cache.put(URL_B, new Response("b")));
+    results["has after old handle put"] = await outcome(() => caches.has(CACHE_NAME));
+    results["old handle delete"] = await outcome(() => cache.delete(URL_A));
+
+    // Opening the name again creates a new, empty cache
+    const reopened = await caches.open(CACHE_NAME);
+    results["reopened is a new handle"] = reopened !== cache;
+    results["has after reopen"] = await outcome(() => caches.has(CACHE_NAME));
+    results["reopened match"] = await outcome(async () => text(await reopened.match(URL_B)));
+    results["reopened put"] = await outcome(() => reopened.put(URL_A, new Response("new")));
+    results["reopened match after put"] = await outcome(async () =>
+      text(await reopened.match(URL_A))
+    );
+
+    // Native Deno lets the old handle see the new cache with the same name,
+    // while the spec keeps it tied to the deleted one, like the polyfill does
+    const oldHandleAfterReopen = await outcome(async () => text(await cache.match(URL_A)));
+
+    await caches.delete(CACHE_NAME);
+    console.log(JSON.stringify({ results, oldHandleAfterReopen }));
+  `;
+
+  const lastLine = (output: string) => output.trim().split("\n").at(-1)!;
+  const native = JSON.parse(
+    lastLine(await runTestScript(testScriptContent, "native")),
+  );
+  const compiled = JSON.parse(lastLine(await runTestScript(testScriptContent)));
+
+  assertEquals(compiled.results, native.results);
+  assertEquals(compiled.results["has after open"], true);
+  assertEquals(compiled.results["old handle put"], "NotFound");
+  assertEquals(compiled.results["has after old handle put"], false);
+  assertEquals(compiled.oldHandleAfterReopen, null);
+});
+
+Deno.test("Caches polyfill streams bodies into a blob directory", async () => {
+  const testScriptContent = `
+    import { setupCachesPolyfill } from "./mod.ts";
+    import { storageDir } from "../utils.ts";
+    import { assertEquals, assert } from "jsr:@std/assert@1.0.11";
+
+    // Mirror the storage location computed by the polyfill
+    async function storageRoot() {
+      const data = new TextEncoder().encode(new URL("./mod.ts", import.meta.url).href);
+      const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+      const id = Array.from(hash).map((b) => b.toString(16).padStart(2, "0")).join("").slice(0, 16);
+      return await storageDir("cache") + "/deno-cache-api/" + id;
+    }
+
+    // Mirror the file name the polyfill stores a cache under
+    async function storageName(cacheName) {
+      const data = new TextEncoder().encode(cacheName);
+      const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+      return "cache-" + Array.from(hash).map((b) => b.toString(16).padStart(2, "0")).join("");
+    }
+
+    async function blobNames(dir) {
+      const names = [];
+      for await (const entry of Deno.readDir(dir)) names.push(entry.name);
+      return names.sort();
+    }
+
+    await setupCachesPolyfill();
+
+    async function runTests() {
+      const root = await storageRoot();
+      const cache = await caches.open("blobs-v1");
+
+      // A 32 MiB body produced chunk by chunk
+      const chunk = new Uint8Array(1024 * 1024).map((_, i) => i % 251);
+      const chunkCount = 32;
+      let produced = 0;
+      const body = new ReadableStream({
+        pull(controller) {
+          if (produced++ === chunkCount) return controller.close();
+          controller.enqueue(chunk);
+        },
+      });
+      await cache.put("https://example.com/release.tar.gz", new Response(body));
+
+      // The index stays small and holds no body data
+      const indexPath = root + "/" + await storageName("blobs-v1") + ".json";
+      const index = JSON.parse(await Deno.readTextFile(indexPath));
+      const stored = index.entries[0].response.body;
+      assertEquals(stored.size, chunk.byteLength * chunkCount);
+      assert((await Deno.stat(indexPath)).size < 4096, "index should not embed bodies");
+
+      // The body lives in a file named after its SHA-256
+      const blobDir = root + "/" + await storageName("blobs-v1") + ".blobs";
+      assertEquals(await blobNames(blobDir), [stored.hash]);
+      assertEquals((await Deno.stat(blobDir + "/" + stored.hash)).size, stored.size);
+
+      // match streams the body back from disk
+      const matched = await cache.match("https://example.com/release.tar.gz");
+      let total = 0;
+      for await (const part of matched.body) total += part.byteLength;
+      assertEquals(total, stored.size);
+
+      // Identical bodies share a blob, and a blob goes away with its last entry
+      await cache.put("https://example.com/a", new Response("same"));
+      await cache.put("https://example.com/b", new Response("same"));
+      assertEquals((await blobNames(blobDir)).length, 2);
+      await cache.delete("https://example.com/a");
+      assertEquals((await blobNames(blobDir)).length, 2);
+      assertEquals(await (await cache.match("https://example.com/b")).text(), "same");
+      await cache.delete("https://example.com/b");
+      assertEquals(await blobNames(blobDir), [stored.hash]);
+
+      // Replacing an entry drops its old body
+      await cache.put("https://example.com/release.tar.gz", new Response("small"));
+      assertEquals((await blobNames(blobDir)).length, 1);
+      assert(!(await blobNames(blobDir)).includes(stored.hash));
+
+      // Responses without a body don't create blobs
+      await cache.put("https://example.com/empty", new Response(null, { status: 204 }));
+      const empty = await cache.match("https://example.com/empty");
+      assertEquals(empty.status, 204);
+      assertEquals(empty.body, null);
+      assertEquals((await blobNames(blobDir)).length, 1);
+
+      // Deleting the cache removes its blobs too
+      await caches.delete("blobs-v1");
+      assertEquals(await Deno.stat(blobDir).catch(() => null), null);
+    }
+
+    try {
+      await runTests();
+      Deno.exit(0);
+    } catch (err) {
+      console.error("Error during test script execution:", err);
+      Deno.exit(1);
+    }
+  `;
+
+  await runTestScript(testScriptContent);
+});
+
+Deno.test("Caches polyfill recovers from a corrupt index", async () => {
+  const testScriptContent = `
+    import { setupCachesPolyfill } from "./mod.ts";
+    import { storageDir } from "../utils.ts";
+    import { assertEquals, assert } from "jsr:@std/assert@1.0.11";
+
+    // Mirror the storage location computed by the polyfill
+    async function storageRoot() {
+      const data = new TextEncoder().encode(new URL("./mod.ts", import.meta.url).href);
+      const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+      const id = Array.from(hash).map((b) => b.toString(16).padStart(2, "0")).join("").slice(0, 16);
+      return await storageDir("cache") + "/deno-cache-api/" + id;
+    }
+
+    // What a write interrupted by an older version used to leave behind
+    const root = await storageRoot();
+    await Deno.mkdir(root, { recursive: true });
+    await Deno.writeTextFile(root + "/corrupt-v1.json", '{"entries":{"https://exa');
+
+    await setupCachesPolyfill();
+
+    async function runTests() {
+      const cache = await caches.open("corrupt-v1");
+      assertEquals(await cache.match("https://example.com/"), undefined);
+      const backup = await Deno.readTextFile(root + "/corrupt-v1.json.corrupt");
+      assertEquals(backup, '{"entries":{"https://exa');
+
+      // The cache keeps working and the new index is valid JSON
+      await cache.put("https://example.com/", new Response("fresh"));
+      assertEquals(await (await cache.match("https://example.com/")).text(), "fresh");
+      const index = JSON.parse(await Deno.readTextFile(root + "/corrupt-v1.json"));
+      assertEquals(index.entries.length, 1);
+
+      // Writes go through a temp file that is renamed into place
+      for await (const entry of Deno.readDir(root)) {
+        assert(!entry.name.endsWith(".tmp"), "temp file left behind: " + entry.name);
+      }
+
+      await caches.delete("corrupt-v1");
+      await Deno.remove(root + "/corrupt-v1.json.corrupt");
+    }
+
+    try {
+      await runTests();
+      Deno.exit(0);
+    } catch (err) {
+      console.error("Error during test script execution:", err);
+      Deno.exit(1);
+    }
+  `;
+
+  await runTestScript(testScriptContent);
+});
+
+Deno.test("Caches polyfill keeps entries from concurrent processes", async () => {
+  const WORKERS = 4;
+  const PUTS_PER_WORKER = 20;
+  const testScriptContent = `
+    import "./mod.ts";
+
+    const [command, arg] = Deno.args;
+    const cache = await caches.open("multi-process-v1");
+
+    if (command === "worker") {
+      for (let i = 0; i < ${PUTS_PER_WORKER}; i++) {
+        await cache.put("https://example.com/" + arg + "/" + i, new Response(arg + ":" + i));
+        // Every worker also hammers the same entry
+        await cache.put("https://example.com/shared", new Response(arg));
+      }
+    } else if (command === "check") {
+      for (let worker = 0; worker < Number(arg); worker++) {
+        for (let i = 0; i < ${PUTS_PER_WORKER}; i++) {
+          const res = await cache.match("https://example.com/" + worker + "/" + i);
+          if (!res) throw new Error("lost entry " + worker + "/" + i);
+          if (await res.text() !== worker + ":" + i) throw new Error("wrong body");
+        }
+      }
+      const shared = await cache.match("https://example.com/shared");
+      if (!shared) throw new Error("lost shared entry");
+      await shared.text();
+      await caches.delete("multi-process-v1");
+    }
+  `;
+
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
   try {
-    // Copy necessary files to tempDir, adjusting paths
-    console.log("Copying files to temp directory:", tempDir);
-    const modFilePath = path.join(tempDir, "mod.ts");
-    const modFileContent = await Deno.readTextFile(
-      new URL("./mod.ts", import.meta.url),
-    )
-      // Adjust relative path to utils.ts
-      .then((file) => file.replaceAll("../utils.ts", "./utils.ts"));
-    await Deno.writeTextFile(modFilePath, modFileContent);
-
-    const utilsFilePath = path.join(tempDir, "utils.ts");
-    const utilsFileContent = await Deno.readTextFile(
-      new URL("../utils.ts", import.meta.url),
-    );
-    await Deno.writeTextFile(utilsFilePath, utilsFileContent);
-
-    await Deno.writeTextFile(testScriptPath, testScriptContent);
-    console.log("Test script written to:", testScriptPath);
-
-    // --- Step 2: Compile the test script ---
     const executablePath = await compileDenoScript(testScriptPath);
+    const run = async (args: string[]) => {
+      const output = await new Deno.Command(executablePath, {
+        args,
+        cwd: tempDir,
+        stdin: "null",
+        stdout: "piped",
+        stderr: "piped",
+      }).output();
+      assertEquals(
+        output.code,
+        0,
+        `${args.join(" ")} failed:\n${new TextDecoder().decode(output.stderr)}`,
+      );
+    };
 
-    // --- Step 3: Run the compiled executable ---
-    console.log(`Running compiled executable: ${executablePath}`);
-    const runProcess = new Deno.Command(executablePath, {
-      cwd: tempDir, // Run from the temp directory where cache files will be created
-      stdin: "null",
-      stdout: "piped",
-      stderr: "piped",
-    });
+    await Promise.all(
+      Array.from({ length: WORKERS }, (_, i) => run(["worker", String(i)])),
+    );
+    await run(["check", String(WORKERS)]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
 
-    const output = await runProcess.output();
-    const status = output.code; // Use output.code for exit status
+Deno.test("Caches polyfill moves caches to the chosen app ID", async () => {
+  const testScriptContent = `
+    import { setupCachesPolyfill } from "./mod.ts";
+    import { createStorageId, storageDir } from "../utils.ts";
+    import { exists } from "@std/fs";
 
-    const decoder = new TextDecoder();
-    const outStr = decoder.decode(output.stdout);
-    const errStr = decoder.decode(output.stderr);
+    const [step, appId] = Deno.args;
+    const apiDir = await storageDir("cache") + "/deno-cache-api";
+    const legacyId = await createStorageId(new URL("./mod.ts", import.meta.url).href);
+    const legacyRoot = apiDir + "/" + legacyId;
+    const appRoot = apiDir + "/" + appId;
 
-    console.log("--- Compiled Executable STDOUT ---");
-    console.log(outStr);
-    console.log("--- Compiled Executable STDERR ---");
-    console.log(errStr);
-    console.log("--- End Output ---");
-    console.log(`Executable finished with code: ${status}`);
+    if (step === "explicit") {
+      await setupCachesPolyfill({ appId });
+      if (await exists(legacyRoot)) throw new Error("legacy directory left behind");
+      if (!(await exists(appRoot))) throw new Error("app ID directory missing");
+    }
 
-    // --- Step 4: Check the output ---
+    const cache = await caches.open("app-id-v1");
+    if (step === "legacy") {
+      await cache.put("https://example.com/kept", new Response("yes"));
+    } else {
+      // "env" relies on the side-effect import picking up DENO_COMPILE_EXTRA_APP_ID
+      const res = await cache.match("https://example.com/kept");
+      if (!res) throw new Error("entry not migrated");
+      if (await res.text() !== "yes") throw new Error("wrong body");
+    }
+    if (step === "env") {
+      await caches.delete("app-id-v1");
+      await Deno.remove(appRoot, { recursive: true });
+    }
+  `;
+
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
+  const appId = `deno-compile-extra-test-${crypto.randomUUID()}`;
+  try {
+    const executablePath = await compileDenoScript(testScriptPath);
+    const run = async (step: string, env?: Record<string, string>) => {
+      const output = await new Deno.Command(executablePath, {
+        args: [step, appId],
+        env,
+        cwd: tempDir,
+        stdin: "null",
+        stdout: "piped",
+        stderr: "piped",
+      }).output();
+      assertEquals(
+        output.code,
+        0,
+        `${step} failed:\n${new TextDecoder().decode(output.stderr)}`,
+      );
+    };
+
+    await run("legacy");
+    await run("explicit");
+    await run("env", { DENO_COMPILE_EXTRA_APP_ID: appId });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+// Helper function mirroring the name the polyfill stores a cache under
+async function storageName(cacheName: string): Promise<string> {
+  const data = new TextEncoder().encode(cacheName);
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return "cache-" +
+    Array.from(hash).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+Deno.test("Caches polyfill can be forced onto a memory backend", async () => {
+  const { setupCachesPolyfill } = await import("./mod.ts");
+  const { MemoryBackend } = await import("../backends/mod.ts");
+  const backend = new MemoryBackend();
+
+  await setupCachesPolyfill({ backend, force: true });
+  const cache = await caches.open("memory-test");
+  await cache.put("https://example.com/a", new Response("cached"));
+  assertEquals(
+    await (await cache.match("https://example.com/a"))?.text(),
+    "cached",
+  );
+  const name = await storageName("memory-test");
+  assertEquals((await backend.list("")).sort(), [
+    `${name}.json`,
+    "cache-names.index",
+  ]);
+  assertEquals((await backend.list(`${name}.blobs/`)).length, 1);
+
+  assertEquals(await caches.delete("memory-test"), true);
+  assertEquals(await backend.list(""), ["cache-names.index"]);
+  assertEquals(await backend.list(`${name}.blobs/`), []);
+});
+
+Deno.test("Caches polyfill is only installed when native caches fail", async () => {
+  const { cachesPolyfillStatus, setupCachesPolyfill } = await import(
+    "./mod.ts"
+  );
+  const { MemoryBackend } = await import("../backends/mod.ts");
+
+  // Native caches work under deno test
+  await setupCachesPolyfill({});
+  assertEquals(cachesPolyfillStatus(), {
+    active: false,
+    reason: "native-works",
+  });
+  // ...and removes the polyfill the tests before installed
+  const native = Object.getOwnPropertyDescriptor(globalThis, "caches");
+
+  await setupCachesPolyfill({ backend: new MemoryBackend(), force: true });
+  assertEquals(cachesPolyfillStatus(), { active: true, reason: "forced" });
+  assertEquals(caches.constructor.name, "CacheStorageImpl");
+
+  // Forcing the native side puts it back
+  await setupCachesPolyfill({ force: false });
+  assertEquals(cachesPolyfillStatus(), { active: false, reason: "forced" });
+  assertEquals(Object.getOwnPropertyDescriptor(globalThis, "caches"), native);
+});
+
+// Waits a moment so entries get distinct put and access times
+function tick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 5));
+}
+
+Deno.test("Caches polyfill evicts least recently used entries", async () => {
+  const { setupCachesPolyfill } = await import("./mod.ts");
+  const { MemoryBackend } = await import("../backends/mod.ts");
+  const backend = new MemoryBackend();
+  await setupCachesPolyfill({
+    backend,
+    force: true,
+    limits: { maxSize: 10 },
+    cacheLimits: { small: { maxEntries: 2 } },
+  });
+  const cached = async (cache: Cache, url: string) =>
+    await (await cache.match(`https://example.com/${url}`))?.text();
+
+  // Per cache: b is the least recently used once a is matched
+  const small = await caches.open("small");
+  await small.put("https://example.com/a", new Response("a"));
+  await tick();
+  await small.put("https://example.com/b", new Response("b"));
+  await tick();
+  assertEquals(await cached(small, "a"), "a");
+  await tick();
+  await small.put("https://example.com/c", new Response("c"));
+  assertEquals(await cached(small, "b"), undefined);
+  assertEquals(await cached(small, "c"), "c");
+  assertEquals(await cached(small, "a"), "a");
+  const smallBlobs = `${await storageName("small")}.blobs/`;
+  assertEquals((await backend.list(smallBlobs)).length, 2);
+
+  // All caches together: 12 bytes are over the limit, so the least recently
+  // used entries of any cache go until the rest fits
+  await tick();
+  const other = await caches.open("other");
+  await other.put("https://example.com/d", new Response("12345678"));
+  await tick();
+  await other.put("https://example.com/e", new Response("xy"));
+  assertEquals(await cached(small, "c"), undefined);
+  assertEquals(await cached(small, "a"), undefined);
+  assertEquals(await cached(other, "d"), "12345678");
+  assertEquals(await cached(other, "e"), "xy");
+  assertEquals(await backend.list(smallBlobs), []);
+});
+
+Deno.test("Caches polyfill evicts Vary variants put in the same millisecond one by one", async () => {
+  const { setupCachesPolyfill } = await import("./mod.ts");
+  const { MemoryBackend } = await import("../backends/mod.ts");
+  await setupCachesPolyfill({
+    backend: new MemoryBackend(),
+    force: true,
+    limits: { maxEntries: 2 },
+  });
+  const cache = await caches.open("variants");
+  const url = "https://example.com/greeting";
+  const variant = (language: string) =>
+    new Request(url, { headers: { "accept-language": language } });
+
+  const realNow = Date.now;
+  const now = realNow();
+  Date.now = () => now;
+  try {
+    for (const language of ["en", "fr"]) {
+      await cache.put(
+        variant(language),
+        new Response(language, { headers: { vary: "accept-language" } }),
+      );
+    }
+  } finally {
+    Date.now = realNow;
+  }
+  await tick();
+  await cache.put("https://example.com/other", new Response("other"));
+
+  // Only one of the variants is evicted
+  const matched = [];
+  for (const language of ["en", "fr"]) {
+    matched.push(await (await cache.match(variant(language)))?.text());
+  }
+  assertEquals(matched.filter((text) => text !== undefined).length, 1);
+  assertEquals(
+    await (await cache.match("https://example.com/other"))?.text(),
+    "other",
+  );
+});
+
+Deno.test("Caches polyfill enforces limits at startup", async () => {
+  const { setupCachesPolyfill } = await import("./mod.ts");
+  const { MemoryBackend } = await import("../backends/mod.ts");
+  const backend = new MemoryBackend();
+
+  await setupCachesPolyfill({ backend, force: true });
+  const cache = await caches.open("v1");
+  await cache.put("https://example.com/a", new Response("a"));
+  await tick();
+  await cache.put("https://example.com/b", new Response("b"));
+  await tick();
+
+  // Access times are recorded in the index, so a later run sees a was used
+  await setupCachesPolyfill({ backend, force: true });
+  await (await (await caches.open("v1")).match("https://example.com/a"))
+    ?.text();
+  await setupCachesPolyfill({
+    backend,
+    force: true,
+    cacheLimits: { v1: { maxEntries: 1 } },
+  });
+  const limited = await caches.open("v1");
+  assertEquals(await limited.match("https://example.com/b"), undefined);
+  assertEquals(
+    await (await limited.match("https://example.com/a"))?.text(),
+    "a",
+  );
+
+  // Entries older than maxAge are removed
+  await tick();
+  await setupCachesPolyfill({ backend, force: true, limits: { maxAge: 0 } });
+  assertEquals(
+    await (await caches.open("v1")).match("https://example.com/a"),
+    undefined,
+  );
+  assertEquals(await backend.list(`${await storageName("v1")}.blobs/`), []);
+
+  await assertRejects(
+    () =>
+      setupCachesPolyfill({ backend, force: true, limits: { maxSize: -1 } }),
+    RangeError,
+  );
+  await assertRejects(
+    () =>
+      setupCachesPolyfill({
+        backend,
+        force: true,
+        cacheLimits: { v1: { maxEntries: NaN } },
+      }),
+    RangeError,
+  );
+});
+
+Deno.test("Caches polyfill encrypts caches at rest", async () => {
+  const { setupCachesPolyfill } = await import("./mod.ts");
+  const { MemoryBackend } = await import("../backends/mod.ts");
+  const backend = new MemoryBackend();
+  const encryptionKey = btoa(
+    String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))),
+  );
+
+  // Caches stored before encryption was enabled are encrypted on first use
+  await setupCachesPolyfill({ backend, force: true });
+  await (await caches.open("v1")).put(
+    "https://example.com/old",
+    new Response("old secret"),
+  );
+  await setupCachesPolyfill({ backend, encryptionKey, force: true });
+  const cache = await caches.open("v1");
+  await cache.put("https://example.com/new", new Response("new secret"));
+  assertEquals(
+    await (await cache.match("https://example.com/old"))?.text(),
+    "old secret",
+  );
+  assertEquals(
+    await (await cache.match("https://example.com/new"))?.text(),
+    "new secret",
+  );
+
+  const name = await storageName("v1");
+  const indexKeys = [`${name}.json.enc`, "cache-names.index.enc"];
+  assertEquals((await backend.list("")).sort(), indexKeys);
+  const blobKeys = await backend.list(`${name}.blobs/`);
+  assertEquals(blobKeys.length, 2);
+  const decoder = new TextDecoder();
+  for (const key of [...indexKeys, ...blobKeys]) {
+    const stored = decoder.decode(await backend.get(key));
+    assertEquals(key.endsWith(".enc"), true);
+    assertEquals(stored.includes("secret"), false);
+    assertEquals(stored.includes("example.com"), false);
+  }
+});
+
+Deno.test("Caches polyfill stores any cache name safely", async () => {
+  const { setupCachesPolyfill } = await import("./mod.ts");
+  const { JsonFileBackend } = await import("../backends/mod.ts");
+  const dir = await Deno.makeTempDir({ prefix: "cache_test_names_" });
+  const root = path.join(dir, "root");
+  await Deno.mkdir(root);
+  try {
+    const backend = new JsonFileBackend(root);
+    // A cache stored under its plain name by an older version
+    await Deno.writeTextFile(
+      path.join(root, "legacy.json"),
+      JSON.stringify({
+        version: 3,
+        entries: [{
+          request: { url: "https://example.com/", method: "GET", headers: {} },
+          response: { status: 204, statusText: "", headers: {}, body: null },
+        }],
+      }),
+    );
+    await setupCachesPolyfill({ backend, fullSpec: true, force: true });
+
+    const names = [
+      "../escape",
+      "../../etc/passwd",
+      "a/b",
+      "a\\b",
+      "..",
+      ".",
+      "",
+      "CON",
+      'what?:*<>|"',
+      "tab\tnewline\n",
+      "Case",
+      "case",
+      "日本語のキャッシュ 🎉",
+      "x".repeat(1000),
+      "cache-names",
+      "legacy.blobs",
+    ];
+    for (const [i, name] of names.entries()) {
+      const cache = await caches.open(name);
+      await cache.put("https://example.com/", new Response(`body ${i}`));
+    }
+    for (const [i, name] of names.entries()) {
+      assertEquals(await caches.has(name), true);
+      const response = await caches.match("https://example.com/", {
+        cacheName: name,
+      });
+      assertEquals(await response?.text(), `body ${i}`);
+    }
+    assertEquals(await caches.keys(), [...names, "legacy"].sort());
+
+    // Nothing is written outside the storage root
     assertEquals(
-      status,
-      0, // Expect success (exit code 0) from the test script
-      `Test script failed (Exit code: ${status}):\n STDERR: ${errStr}\n STDOUT: ${outStr}`,
+      [...Deno.readDirSync(dir)].map((entry) => entry.name),
+      ["root"],
+    );
+
+    // The plain-named cache keeps its file
+    const legacy = await caches.open("legacy");
+    assertEquals((await legacy.match("https://example.com/"))?.status, 204);
+    await legacy.put("https://example.com/new", new Response("new"));
+    assertEquals(
+      JSON.parse(await Deno.readTextFile(path.join(root, "legacy.json")))
+        .entries.length,
+      2,
     );
-    // Optionally add more assertions based on stdout/stderr if needed
+
+    for (const name of names) {
+      assertEquals(await caches.delete(name), true);
+      assertEquals(await caches.has(name), false);
+    }
+    assertEquals(await caches.keys(), ["legacy"]);
   } finally {
-    // --- Step 5: Clean up ---
-    console.log("Cleaning up temporary directory:", tempDir);
-    await Deno.remove(tempDir, { recursive: true }).catch((err) => {
-      console.error(`Failed to remove temp directory ${tempDir}:`, err);
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("Caches polyfill addAll stores all responses or none", async () => {
+  const { setupCachesPolyfill } = await import("./mod.ts");
+  const { MemoryBackend } = await import("../backends/mod.ts");
+  // Counts the writes of cache indexes
+  class CountingBackend extends MemoryBackend {
+    indexWrites = 0;
+    override update(key: string, fn: UpdateFn): Promise<void> {
+      if (key.endsWith(".json")) this.indexWrites++;
+      return super.update(key, fn);
+    }
+  }
+  const backend = new CountingBackend();
+  await setupCachesPolyfill({ backend, force: true });
+
+  const requests = new Map<string, number>();
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    async (request) => {
+      const path = new URL(request.url).pathname;
+      const count = (requests.get(path) ?? 0) + 1;
+      requests.set(path, count);
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      inFlight--;
+      if (path === "/missing") return new Response("", { status: 404 });
+      if (path.startsWith("/flaky") && count < 3) {
+        return new Response("", { status: 503 });
+      }
+      return new Response(`body of ${path}`);
+    },
+  );
+  const base = `http://127.0.0.1:${server.addr.port}`;
+  const urls = (prefix: string, count: number) =>
+    Array.from({ length: count }, (_, i) => `${base}/${prefix}/${i}`);
+  const blobCount = async () =>
+    (await backend.list(`${await storageName("add-all")}.blobs/`)).length;
+
+  try {
+    const cache = await caches.open("add-all") as PolyfillCache;
+
+    // One failure stores nothing, not even the bodies
+    await assertRejects(
+      () => cache.addAll([...urls("a", 3), `${base}/missing`]),
+      TypeError,
+    );
+    assertEquals(await cache.match(`${base}/a/0`), undefined);
+    assertEquals(await blobCount(), 0);
+
+    // Every response is stored with a single write of the index
+    const writes = backend.indexWrites;
+    maxInFlight = 0;
+    await cache.addAll(urls("b", 20), { concurrency: 3 });
+    assertEquals(backend.indexWrites, writes + 1);
+    assertEquals(maxInFlight, 3);
+    assertEquals(
+      await (await cache.match(`${base}/b/19`))?.text(),
+      "body of /b/19",
+    );
+    assertEquals(await blobCount(), 20);
+
+    // Retries with backoff
+    await assertRejects(() => cache.add(`${base}/flaky/1`), TypeError);
+    await cache.add(`${base}/flaky/2`, { retries: 2, retryDelay: 1 });
+    assertEquals(requests.get("/flaky/2"), 3);
+    assertEquals(
+      await (await cache.match(`${base}/flaky/2`))?.text(),
+      "body of /flaky/2",
+    );
+
+    // Aborting stores nothing
+    const controller = new AbortController();
+    const aborted = cache.addAll(urls("c", 10), {
+      concurrency: 2,
+      signal: controller.signal,
     });
-    // We don't delete the compilation output dir directly, as compileDenoScript uses a separate temp dir for that
-    // Deno should clean that up itself, or we could track and delete it too if necessary.
-    console.log("Cleanup complete.");
+    setTimeout(() => controller.abort(), 15);
+    const error = await assertRejects(() => aborted, DOMException);
+    assertEquals(error.name, "AbortError");
+    assertEquals(await cache.match(`${base}/c/0`), undefined);
+    await assertRejects(
+      () => cache.add(`${base}/d`, { signal: AbortSignal.abort() }),
+      DOMException,
+    );
+    assertEquals(requests.has("/d"), false);
+
+    // A batch can't hold the same request twice
+    await assertRejects(
+      () => cache.addAll([`${base}/e`, `${base}/e`]),
+      DOMException,
+    );
+    assertEquals(await cache.match(`${base}/e`), undefined);
+    assertEquals(await blobCount(), 21);
+
+    await assertRejects(
+      () => cache.addAll([`${base}/f`], { concurrency: 0 }),
+      RangeError,
+    );
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test("Caches polyfill falls back to a read-only seed", async () => {
+  const { captureCacheSeed, setupCachesPolyfill } = await import("./mod.ts");
+  const { MemoryBackend } = await import("../backends/mod.ts");
+  const dir = await Deno.makeTempDir();
+  const schemaUrl = "https://example.com/schema.json";
+  const iconUrl = "https://example.com/icon.png";
+  // Paths of the files below the seed directory
+  const listSeedDir = async () =>
+    (await Array.fromAsync(walk(path.join(dir, "seed"))))
+      .map((entry) => entry.path).sort();
+
+  try {
+    // At build time the caches are captured
+    await setupCachesPolyfill({
+      backend: new MemoryBackend(),
+      fullSpec: true,
+      force: true,
+    });
+    const source = await caches.open("schemas");
+    await source.put(
+      schemaUrl,
+      new Response('{"type":"object"}', {
+        headers: { "content-type": "application/json" },
+      }),
+    );
+    await source.put(iconUrl, new Response(new Uint8Array([0, 255, 1])));
+    assertEquals(await captureCacheSeed(path.join(dir, "seed")), 2);
+    assertEquals(await captureCacheSeed(path.join(dir, "seed.har")), 2);
+    await assertRejects(
+      () => captureCacheSeed(path.join(dir, "seed")),
+      Deno.errors.AlreadyExists,
+    );
+    const seedFiles = await listSeedDir();
+
+    for (const seed of ["seed", "seed.har"]) {
+      await setupCachesPolyfill({
+        backend: new MemoryBackend(),
+        seed: path.join(dir, seed),
+        force: true,
+      });
+      const cache = await caches.open("schemas");
+      const seeded = await cache.match(schemaUrl);
+      assertEquals(seeded?.headers.get("content-type"), "application/json");
+      assertEquals(await seeded?.text(), '{"type":"object"}');
+      assertEquals(
+        new Uint8Array(await (await cache.match(iconUrl))!.arrayBuffer()),
+        new Uint8Array([0, 255, 1]),
+      );
+      const other = await caches.open("other");
+      assertEquals(await other.match(schemaUrl), undefined);
+
+      // Writes go to the backend and take precedence over the seed
+      await cache.put(schemaUrl, new Response("updated"));
+      assertEquals(await (await cache.match(schemaUrl))?.text(), "updated");
+      assertEquals(await cache.delete(schemaUrl), true);
+      assertEquals(
+        await (await cache.match(schemaUrl))?.text(),
+        '{"type":"object"}',
+      );
+    }
+    assertEquals(await listSeedDir(), seedFiles);
+
+    // HAR files recorded elsewhere: entries without a cache name are seeded
+    // into every cache, and those put rejects are skipped
+    const harEntry = (method: string, url: string, text: string) => ({
+      request: { method, url, headers: [] },
+      response: {
+        status: 200,
+        statusText: "OK",
+        headers: [{ name: "content-type", value: "text/plain" }],
+        content: { size: text.length, mimeType: "text/plain", text },
+      },
+    });
+    await Deno.writeTextFile(
+      path.join(dir, "recorded.har"),
+      JSON.stringify({
+        log: {
+          entries: [
+            harEntry("GET", "https://example.com/a", "a"),
+            harEntry("POST", "https://example.com/b", "b"),
+          ],
+        },
+      }),
+    );
+    await setupCachesPolyfill({
+      backend: new MemoryBackend(),
+      seed: path.join(dir, "recorded.har"),
+      force: true,
+    });
+    const anyCache = await caches.open("any name");
+    assertEquals(
+      await (await anyCache.match("https://example.com/a"))?.text(),
+      "a",
+    );
+    assertEquals(await anyCache.match("https://example.com/b"), undefined);
+
+    await assertRejects(
+      () =>
+        setupCachesPolyfill({
+          backend: new MemoryBackend(),
+          seed: path.join(dir, "missing"),
+          force: true,
+        }),
+      Deno.errors.NotFound,
+      "deno compile --include",
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
   }
 });
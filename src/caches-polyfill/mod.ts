@@ -2,15 +2,22 @@
  * Cache API polyfill for Deno standalone executables.
  *
  * This module provides a basic Cache API implementation for Deno standalone executables
- * by storing data in JSON files in the local cache directory. It allows persistence
- * of cached responses across executions of the same compiled executable.
+ * by storing a small JSON index per cache in the local cache directory, with response
+ * bodies streamed into a content-addressed blob directory next to it. It allows
+ * persistence of cached responses across executions of the same compiled executable.
+ * It is only installed when Deno's native `caches` fails, as it does in compiled
+ * executables, see {@linkcode cachesPolyfillStatus}.
  *
  * ## Limitations
  *
- * - Storage is based on a hash derived from the main module URL.
- * - Does not fully support all Cache/CacheStorage options (e.g., ignoreSearch, cache variations).
- * - Performance might be limited for very large numbers of caches or large response bodies.
- * - Response body streams are fully consumed and stored as base64 strings.
+ * - Unless an `appId` is set (see {@linkcode CachesPolyfillOptions.appId}), storage is based on
+ *   a hash derived from the polyfill module URL.
+ * - Performance might be limited for very large numbers of caches or entries, as each
+ *   change rewrites the cache's index file.
+ * - Caches grow until entries are deleted, unless limits are set (see
+ *   {@linkcode CachesPolyfillOptions.limits}).
+ * - Responses of a seed (see {@linkcode CachesPolyfillOptions.seed}) are only found by
+ *   `Cache.match`, not by `keys()`, `matchAll()` or `CacheStorage.match()`.
  *
  * ## Usage
  *
@@ -35,22 +42,35 @@
  */
 
 import * as path from "@std/path";
-import { ensureDir, exists } from "@std/fs";
-import { cacheDir } from "../utils.ts";
-import assert from "node:assert";
+import { ensureDir } from "@std/fs";
+import {
+  CACHE_NAMES_KEY,
+  choosePolyfill,
+  createStorageId,
+  CUSTOM_BACKEND_STORAGE,
+  getAppId,
+  getEncryptionKey,
+  getPolyfillStatus,
+  moveLegacyStorage,
+  parseJson,
+  type PolyfillStatus,
+  readJsonOrRecover,
+  readNativeGlobal,
+  readStream,
+  renameKey,
+  setPolyfillStatus,
+  storageDir,
+  writeStream,
+} from "../utils.ts";
+import {
+  EncryptedBackend,
+  JsonFileBackend,
+  MemoryBackend,
+  type StorageBackend,
+} from "../backends/mod.ts";
+import { createHash } from "node:crypto";
 
-// Helper to convert ArrayBuffer to Base64
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = "";
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-// Helper to convert Base64 to ArrayBuffer
+// Helper to convert Base64 to ArrayBuffer (only needed to migrate old files)
 function base64ToArrayBuffer(base64: string): ArrayBuffer {
   const binary_string = atob(base64);
   const len = binary_string.length;
@@ -61,6 +81,16 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer;
 }
 
+// Helper to convert bytes to Base64 (for bodies in HAR files)
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked, as spreading a large array exceeds the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
 // Helper to convert Headers to Record
 function headersToRecord(headers: Headers): Record<string, string> {
   const record: Record<string, string> = {};
@@ -70,15 +100,233 @@ function headersToRecord(headers: Headers): Record<string, string> {
   return record;
 }
 
-// Helper to get Request URL key (simplistic)
-function getRequestKey(input: RequestInfo | URL): string {
-  if (input instanceof Request) {
-    return input.url;
-  } else {
-    return String(input);
+// Helper to turn a RequestInfo into a Request
+function toRequest(input: RequestInfo | URL): Request {
+  return input instanceof Request ? input : new Request(input);
+}
+
+// Helper to get the comparable form of a URL, as used by the spec
+function comparableUrl(url: string, ignoreSearch: boolean): string {
+  const parsed = new URL(url);
+  parsed.hash = ""; // Fragments are always excluded
+  if (ignoreSearch) parsed.search = "";
+  return parsed.href;
+}
+
+// Helpers mirroring the checks native Deno runs in Cache.put/add/addAll
+function validateCacheRequest(request: Request): void {
+  if (request.method !== "GET") {
+    throw new TypeError("Cannot cache a non-GET request");
+  }
+  const protocol = new URL(request.url).protocol;
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new TypeError("Request url protocol must be 'http:' or 'https:'");
+  }
+}
+
+function validateCacheResponse(response: Response): void {
+  if (response.status === 206) {
+    throw new TypeError("Cannot cache a 206 response");
+  }
+  const vary = response.headers.get("vary");
+  if (vary?.split(",").some((fieldValue) => fieldValue.trim() === "*")) {
+    throw new TypeError("Vary header must not contain '*'");
+  }
+  if (response.bodyUsed) {
+    throw new TypeError("Response body is already used");
   }
 }
 
+/**
+ * Implements the "request matches cached item" algorithm.
+ *
+ * @see https://w3c.github.io/ServiceWorker/#request-matches-cached-item
+ */
+function requestMatchesCachedItem(
+  requestQuery: Request,
+  entry: StoredCacheEntry,
+  options: CacheQueryOptions = {},
+): boolean {
+  if (!options.ignoreMethod && entry.request.method !== "GET") return false;
+
+  const ignoreSearch = options.ignoreSearch ?? false;
+  if (
+    comparableUrl(requestQuery.url, ignoreSearch) !==
+      comparableUrl(entry.request.url, ignoreSearch)
+  ) {
+    return false;
+  }
+
+  const responseHeaders = new Headers(entry.response.headers);
+  const vary = responseHeaders.get("vary");
+  if (options.ignoreVary || vary === null) return true;
+
+  const storedRequestHeaders = new Headers(entry.request.headers);
+  for (const fieldValue of vary.split(",")) {
+    const headerName = fieldValue.trim();
+    if (headerName === "") continue;
+    if (headerName === "*") return false;
+    if (
+      storedRequestHeaders.get(headerName) !==
+        requestQuery.headers.get(headerName)
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Helpers to rebuild the stored request/response pair
+function entryToRequest(entry: StoredCacheEntry): Request {
+  return new Request(entry.request.url, {
+    method: entry.request.method,
+    headers: new Headers(entry.request.headers),
+  });
+}
+
+// Prefix of bodies that are still being written; they are renamed to their hash when done
+const TEMP_BLOB_PREFIX = ".tmp-";
+// Temp blobs older than this are left over from a crash and get removed on load
+const STALE_TEMP_BLOB_MS = 24 * 60 * 60 * 1000;
+
+// A body fully written under a temp key, ready to be renamed to its hash
+interface PendingBlob {
+  tempKey: string;
+  body: StoredBody;
+}
+
+// Streams a body under a temp key next to the cache's blobs, hashing it on
+// the way. The key starts with the time it was created, see STALE_TEMP_BLOB_MS.
+async function writeTempBlob(
+  backend: StorageBackend,
+  blobPrefix: string,
+  body: ReadableStream<Uint8Array>,
+): Promise<PendingBlob> {
+  const tempKey =
+    `${blobPrefix}${TEMP_BLOB_PREFIX}${Date.now()}-${crypto.randomUUID()}`;
+  const hash = createHash("sha256");
+  let size = 0;
+  try {
+    await writeStream(
+      backend,
+      tempKey,
+      body.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            hash.update(chunk);
+            size += chunk.byteLength;
+            controller.enqueue(chunk);
+          },
+        }),
+      ),
+    );
+    return { tempKey, body: { hash: hash.digest("hex"), size } };
+  } catch (error) {
+    await backend.delete(tempKey).catch(() => {});
+    throw error;
+  }
+}
+
+// Moves a pending blob into place under its content hash. Callers hold the
+// cache's lock, so another process can't collect the blob before it's indexed.
+async function commitBlob(
+  backend: StorageBackend,
+  blobPrefix: string,
+  pending: PendingBlob,
+): Promise<StoredBody> {
+  await renameKey(backend, pending.tempKey, blobPrefix + pending.body.hash);
+  return pending.body;
+}
+
+// Module-private hooks used by the full spec subclasses below
+const queryEntries = Symbol("queryEntries");
+const openResponse = Symbol("openResponse");
+const createCache = Symbol("createCache");
+const listCacheNames = Symbol("listCacheNames");
+// Module-private hooks CacheStorageImpl uses to enforce the limits
+const enforceLimits = Symbol("enforceLimits");
+const evictionCandidates = Symbol("evictionCandidates");
+const removeEntries = Symbol("removeEntries");
+// Module-private hooks CacheStorageImpl uses for the lifecycle of its caches
+const createIndex = Symbol("createIndex");
+const markDeleted = Symbol("markDeleted");
+
+/** Limits on what the caches keep, see {@linkcode CachesPolyfillOptions.limits}. */
+export interface CacheLimits {
+  /** Maximum total size of the response bodies, in bytes. */
+  maxSize?: number;
+  /** Maximum number of entries. */
+  maxEntries?: number;
+  /** Maximum time an entry is kept after it was put, in seconds. */
+  maxAge?: number;
+}
+
+// Throws a RangeError for limits that aren't non-negative numbers
+function validateLimits(limits: CacheLimits | undefined, what: string): void {
+  for (const name of ["maxSize", "maxEntries", "maxAge"] as const) {
+    const value = limits?.[name];
+    if (value !== undefined && !(value >= 0)) {
+      throw new RangeError(
+        `Invalid ${name} for ${what}: ${value} (expected a non-negative number)`,
+      );
+    }
+  }
+}
+
+// What the eviction needs to know about an entry
+interface EvictionCandidate {
+  id: string;
+  size: number;
+  storedAt: number;
+  accessedAt: number;
+}
+
+// Returns the candidates to remove so the others fit in the limits: the
+// expired ones, then the least recently used ones
+function selectEvictions<T extends EvictionCandidate>(
+  candidates: T[],
+  limits: CacheLimits,
+  now: number,
+): Set<T> {
+  const evicted = new Set<T>();
+  const kept: T[] = [];
+  for (const candidate of candidates) {
+    if (
+      limits.maxAge !== undefined &&
+      now - candidate.storedAt > limits.maxAge * 1000
+    ) {
+      evicted.add(candidate);
+    } else {
+      kept.push(candidate);
+    }
+  }
+  kept.sort((a, b) => a.accessedAt - b.accessedAt);
+  let count = kept.length;
+  let size = kept.reduce((total, candidate) => total + candidate.size, 0);
+  for (const candidate of kept) {
+    if (
+      count <= (limits.maxEntries ?? Infinity) &&
+      size <= (limits.maxSize ?? Infinity)
+    ) {
+      break;
+    }
+    evicted.add(candidate);
+    count--;
+    size -= candidate.size;
+  }
+  return evicted;
+}
+
+// Access times are kept in memory and written to the index at most this often
+// when nothing else changes it
+const ACCESS_TIME_SAVE_INTERVAL_MS = 60 * 1000;
+
+// A response body stored in the cache's blob directory
+interface StoredBody {
+  hash: string; // SHA-256 of the content, also the blob's key in the directory
+  size: number;
+}
+
 interface StoredCacheEntry {
   request: {
     url: string;
@@ -89,23 +337,235 @@ interface StoredCacheEntry {
     status: number;
     statusText: string;
     headers: Record<string, string>;
-    body: string; // Base64 encoded body
+    body: StoredBody | null; // null for responses without a body
   };
+  // When the entry was put and last matched, in ms since the epoch
+  storedAt: number;
+  accessedAt: number;
+  // Random ID given when the entry is put, missing in entries stored before
+  id?: string;
+}
+
+// Identifies an entry across reloads of the index. Older entries fall back to
+// their time, URL and request headers, which tell most Vary variants apart
+function entryId(entry: StoredCacheEntry): string {
+  return entry.id ??
+    `${entry.storedAt} ${entry.request.url} ${
+      JSON.stringify(entry.request.headers)
+    }`;
+}
+
+// Fills in the times of entries stored before they were recorded, as if they
+// had just been put
+function addMissingTimes(data: CacheData): CacheData {
+  const now = Date.now();
+  for (const entry of data.entries) {
+    entry.storedAt ??= now;
+    entry.accessedAt ??= entry.storedAt;
+  }
+  return data;
 }
 
 interface CacheData {
-  entries: Record<string, StoredCacheEntry>; // Keyed by request URL for now
+  version: 3;
+  // Request/response list in insertion order; one URL can have several
+  // entries when responses carry a Vary header
+  entries: StoredCacheEntry[];
+}
+
+// Before version 3 bodies were embedded in the index as base64 strings
+interface LegacyCacheEntry {
+  request: StoredCacheEntry["request"];
+  response: Omit<StoredCacheEntry["response"], "body"> & { body: string };
+}
+
+// Version 1 stored a single entry per request URL, version 2 a list
+interface LegacyCacheData {
+  version?: 2;
+  entries?: LegacyCacheEntry[] | Record<string, LegacyCacheEntry>;
+}
+
+// Returns the entries of an older file, without dropping any of them
+function legacyEntries(data: LegacyCacheData): LegacyCacheEntry[] {
+  if (Array.isArray(data.entries)) return data.entries;
+  return Object.values(data.entries ?? {});
+}
+
+// Caches are stored under a hash of their name, so any name maps to a safe
+// file name: no path separators, no characters Windows rejects, no clashes on
+// case-insensitive file systems and no overlong names. CACHE_NAMES_KEY maps
+// the hashes back to the names for CacheStorage.keys().
+const HASHED_STORAGE_NAME = /^cache-[0-9a-f]{64}$/;
+
+function hashedStorageName(cacheName: string): string {
+  return `cache-${createHash("sha256").update(cacheName).digest("hex")}`;
+}
+
+// Returns the name the files of a cache are stored under. Older versions used
+// the cache name itself, and caches they stored keep using it.
+async function storageName(
+  backend: StorageBackend,
+  cacheName: string,
+): Promise<string> {
+  if (
+    !HASHED_STORAGE_NAME.test(cacheName) &&
+    (await backend.list("")).includes(`${cacheName}.json`)
+  ) {
+    return cacheName;
+  }
+  return hashedStorageName(cacheName);
+}
+
+/** Options for `add` and `addAll` of the polyfill's caches. */
+export interface AddAllOptions {
+  /**
+   * How many requests to fetch at the same time.
+   *
+   * Defaults to 6.
+   */
+  concurrency?: number;
+  /**
+   * How many times to retry a request that fails with a network error or a
+   * `408`, `429` or `5xx` status.
+   *
+   * Defaults to 0.
+   */
+  retries?: number;
+  /**
+   * Milliseconds to wait before the first retry of a request. The wait
+   * doubles with every further retry.
+   *
+   * Defaults to 500.
+   */
+  retryDelay?: number;
+  /** Aborts the fetches. Nothing is stored when it's aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A cache of the polyfill. Deno's `Cache` type lacks `add` and `addAll`, so
+ * cast the result of `caches.open` to this type to use them.
+ *
+ * @example
+ * ```ts
+ * import type { PolyfillCache } from "jsr:@sigma/deno-compile-extra/cachesPolyfill";
+ *
+ * const cache = await caches.open("assets-v1") as PolyfillCache;
+ * await cache.addAll(["https://example.com/a.png", "https://example.com/b.png"], {
+ *   concurrency: 4,
+ *   retries: 2,
+ *   signal: AbortSignal.timeout(30_000),
+ * });
+ * ```
+ */
+export interface PolyfillCache extends Cache {
+  /** Fetches a request and stores the response, see `addAll`. */
+  add(request: RequestInfo | URL, options?: AddAllOptions): Promise<void>;
+  /**
+   * Fetches the requests and stores the responses. Either all of them are
+   * stored, with a single write, or none when a request fails, a response
+   * isn't ok or `signal` is aborted.
+   */
+  addAll(
+    requests: ReadonlyArray<RequestInfo | URL>,
+    options?: AddAllOptions,
+  ): Promise<void>;
+}
+
+const DEFAULT_ADD_ALL_CONCURRENCY = 6;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+// Statuses that may go away when the request is sent again a bit later
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Resolves after ms, or rejects with the abort reason when signal is aborted
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Fetches a request, retrying network errors and retryable statuses with an
+// exponential backoff
+async function fetchWithRetry(
+  request: Request,
+  retries: number,
+  retryDelay: number,
+  signal: AbortSignal,
+): Promise<Response> {
+  for (let attempt = 0;; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(request.clone(), { signal });
+    } catch (error) {
+      if (signal.aborted || attempt >= retries) throw error;
+      await delay(retryDelay * 2 ** attempt, signal);
+      continue;
+    }
+    if (!isRetryableStatus(response.status) || attempt >= retries) {
+      return response;
+    }
+    await response.body?.cancel();
+    await delay(retryDelay * 2 ** attempt, signal);
+  }
+}
+
+// A response ready to be stored, its body written under a temp key
+interface StagedEntry {
+  request: Request;
+  entry: StoredCacheEntry;
+  pending: PendingBlob | null;
+}
+
+// How a CacheStorageImpl configures its caches
+interface CacheOptions {
+  limits?: CacheLimits;
+  // Called after every put, to enforce the limits of all caches together
+  afterPut?: () => Promise<void>;
+  // Seeded caches match falls back to when nothing is stored
+  seed?: CacheSeed;
+  // Never write the backend, for seeds embedded in the executable
+  readOnly?: boolean;
 }
 
 class CacheImpl implements Cache {
   #cacheName: string;
-  #storagePath: string;
-  #data: CacheData = { entries: {} };
+  #backend: StorageBackend;
+  #options: CacheOptions;
+  #indexKey: string;
+  #blobPrefix: string;
+  #data: CacheData = { version: 3, entries: [] };
   #loaded = false;
+  // Access times not written to the index yet, by entry ID
+  #accessTimes = new Map<string, number>();
+  #accessTimesSavedAt = 0;
+  #created = false;
+  // Set when the cache is deleted through its CacheStorage; the handle then
+  // neither finds nor stores anything, like a handle of a deleted native cache
+  #deleted = false;
 
-  constructor(cacheName: string, storagePath: string) {
+  constructor(
+    cacheName: string,
+    storageName: string,
+    backend: StorageBackend,
+    options: CacheOptions = {},
+  ) {
     this.#cacheName = cacheName;
-    this.#storagePath = storagePath;
+    this.#backend = backend;
+    this.#options = options;
+    this.#indexKey = `${storageName}.json`;
+    this.#blobPrefix = `${storageName}.blobs/`;
   }
 
   // #load is now only called by #ensureLoaded when needed
@@ -114,17 +574,38 @@ class CacheImpl implements Cache {
     if (this.#loaded) return;
 
     // console.log(`[Cache Polyfill] Loading cache "${this.#cacheName}"...`); // Added log
+    if (this.#options.readOnly) {
+      const data = parseJson<CacheData>(
+        await this.#backend.get(this.#indexKey),
+      );
+      this.#data = data?.version === 3
+        ? addMissingTimes(data)
+        : { version: 3, entries: [] };
+      this.#loaded = true;
+      return;
+    }
     try {
-      if (await exists(this.#storagePath, { isFile: true })) {
-        const fileContent = await Deno.readTextFile(this.#storagePath);
-        this.#data = JSON.parse(fileContent);
-        if (!this.#data.entries) this.#data.entries = {}; // Ensure entries exist
+      // A corrupt index is kept as a .corrupt backup and treated as missing
+      const data = await readJsonOrRecover<CacheData | LegacyCacheData>(
+        this.#backend,
+        this.#indexKey,
+      );
+      if (data !== undefined) {
+        if (
+          data.version === 3 &&
+          data.entries.every((entry) => entry.storedAt !== undefined)
+        ) {
+          this.#data = data;
+        } else {
+          await this.#update(() => []); // Migrates and saves under the lock
+        }
+        await this.#removeStaleTempBlobs();
         // console.log(
         //   `[Cache Polyfill] Cache "${this.#cacheName}" loaded from disk.`,
         // );
       } else {
-        // File doesn't exist, initialize empty cache in memory
-        this.#data = { entries: {} };
+        // Index doesn't exist (or was corrupt), initialize empty cache in memory
+        this.#data = { version: 3, entries: [] };
         // console.log(
         //   `[Cache Polyfill] Cache "${this.#cacheName}" initialized (new).`,
         // );
@@ -138,15 +619,65 @@ class CacheImpl implements Cache {
     }
   }
 
-  async #save(): Promise<void> {
-    // Ensure the directory exists before trying to save
-    try {
-      await ensureDir(path.dirname(this.#storagePath));
-      await Deno.writeTextFile(
-        this.#storagePath,
-        JSON.stringify(this.#data, null, 2), // Pretty print for readability
+  // Moves base64 bodies of older files into the blob directory
+  async #migrate(data: LegacyCacheData): Promise<CacheData> {
+    const entries: StoredCacheEntry[] = [];
+    const now = Date.now();
+    for (const { request, response } of legacyEntries(data)) {
+      const bytes = new Uint8Array(base64ToArrayBuffer(response.body));
+      const pending = await writeTempBlob(
+        this.#backend,
+        this.#blobPrefix,
+        ReadableStream.from([bytes]),
       );
-      // console.log(`[Cache Polyfill] Cache "${this.#cacheName}" saved.`);
+      const body = await commitBlob(this.#backend, this.#blobPrefix, pending);
+      entries.push({
+        request,
+        response: { ...response, body },
+        storedAt: now,
+        accessedAt: now,
+        id: crypto.randomUUID(),
+      });
+    }
+    return { version: 3, entries };
+  }
+
+  // Parses the index as currently stored, migrating older formats
+  async #readLatest(bytes: Uint8Array | undefined): Promise<CacheData> {
+    const data = parseJson<CacheData | LegacyCacheData>(bytes);
+    if (data === undefined) return { version: 3, entries: [] };
+    return data.version === 3
+      ? addMissingTimes(data)
+      : await this.#migrate(data);
+  }
+
+  // Applies a change to the latest stored index while holding the cache's
+  // lock, so entries written by other processes in the meantime are kept.
+  // `change` works on this.#data and returns the entries it dropped, or
+  // undefined when it changed nothing. Pending access times are saved along.
+  async #update(
+    change: () =>
+      | Promise<StoredCacheEntry[] | undefined>
+      | StoredCacheEntry[]
+      | undefined,
+  ): Promise<void> {
+    // Never write the index of a deleted cache back
+    if (this.#deleted) {
+      throw new Deno.errors.NotFound(`Cache "${this.#cacheName}" was deleted`);
+    }
+    try {
+      await this.#backend.update(this.#indexKey, async (bytes) => {
+        this.#data = await this.#readLatest(bytes);
+        for (const entry of this.#data.entries) {
+          entry.accessedAt = this.#accessedAt(entry);
+        }
+        const dropped = await change();
+        if (dropped === undefined) return undefined;
+        await this.#removeUnreferencedBlobs(dropped);
+        this.#accessTimes.clear();
+        this.#accessTimesSavedAt = Date.now();
+        return new TextEncoder().encode(JSON.stringify(this.#data));
+      });
     } catch (error) {
       throw new Error(
         `[Cache Polyfill] Error saving cache "${this.#cacheName}":` + error,
@@ -154,6 +685,127 @@ class CacheImpl implements Cache {
     }
   }
 
+  // Removes blobs that no entry references anymore. This is best effort: a
+  // blob that can't be removed now (e.g. still open on Windows) is retried the
+  // next time an entry using the same content is dropped.
+  async #removeUnreferencedBlobs(dropped: StoredCacheEntry[]): Promise<void> {
+    const referenced = new Set(
+      this.#data.entries.map((entry) => entry.response.body?.hash),
+    );
+    for (const entry of dropped) {
+      const hash = entry.response.body?.hash;
+      if (hash === undefined || referenced.has(hash)) continue;
+      referenced.add(hash); // Don't try the same blob twice
+      await this.#backend.delete(this.#blobPrefix + hash).catch(() => {});
+    }
+  }
+
+  // Removes bodies left half-written by a process that was killed during put
+  async #removeStaleTempBlobs(): Promise<void> {
+    const now = Date.now();
+    for (const key of await this.#backend.list(this.#blobPrefix)) {
+      const name = key.slice(this.#blobPrefix.length);
+      if (!name.startsWith(TEMP_BLOB_PREFIX)) continue;
+      // Temp blobs of older versions have no time in their name
+      const createdAt = parseInt(name.slice(TEMP_BLOB_PREFIX.length));
+      if (!(now - createdAt <= STALE_TEMP_BLOB_MS)) {
+        await this.#backend.delete(key).catch(() => {});
+      }
+    }
+  }
+
+  // Last access time of an entry, including the ones not saved yet
+  #accessedAt(entry: StoredCacheEntry): number {
+    return Math.max(
+      entry.accessedAt,
+      this.#accessTimes.get(entryId(entry)) ?? 0,
+    );
+  }
+
+  // Records that an entry was matched. The time is saved with the next change
+  // of the index, or right away when the last save is a while ago, so other
+  // processes and later runs know which entries are in use.
+  async #recordAccess(entry: StoredCacheEntry): Promise<void> {
+    if (this.#options.readOnly) return;
+    const now = Date.now();
+    this.#accessTimes.set(entryId(entry), now);
+    if (now - this.#accessTimesSavedAt >= ACCESS_TIME_SAVE_INTERVAL_MS) {
+      await this.#update(() => []);
+    }
+  }
+
+  // Removes the entries over this cache's limits from this.#data, returning
+  // them, or undefined when everything fits
+  #evict(): StoredCacheEntry[] | undefined {
+    const limits = this.#options.limits;
+    if (limits === undefined) return undefined;
+    const evicted = selectEvictions(
+      this.#data.entries.map((entry) => ({
+        id: entryId(entry),
+        size: entry.response.body?.size ?? 0,
+        storedAt: entry.storedAt,
+        accessedAt: entry.accessedAt,
+        entry,
+      })),
+      limits,
+      Date.now(),
+    );
+    if (evicted.size === 0) return undefined;
+    const dropped = new Set([...evicted].map(({ entry }) => entry));
+    this.#data.entries = this.#data.entries.filter((entry) =>
+      !dropped.has(entry)
+    );
+    return [...dropped];
+  }
+
+  // Removes the entries over this cache's limits, e.g. at startup
+  async [enforceLimits](): Promise<void> {
+    await this.#ensureLoaded();
+    if (this.#options.limits === undefined) return;
+    await this.#update(() => this.#evict());
+  }
+
+  // The entries as the eviction of all caches together sees them
+  async [evictionCandidates](): Promise<EvictionCandidate[]> {
+    await this.#ensureLoaded();
+    return this.#data.entries.map((entry) => ({
+      id: entryId(entry),
+      size: entry.response.body?.size ?? 0,
+      storedAt: entry.storedAt,
+      accessedAt: this.#accessedAt(entry),
+    }));
+  }
+
+  // Removes the entries with the given IDs, if they are still stored
+  async [removeEntries](ids: Set<string>): Promise<void> {
+    await this.#update(() => {
+      const dropped = this.#data.entries.filter((entry) =>
+        ids.has(entryId(entry))
+      );
+      if (dropped.length === 0) return undefined;
+      this.#data.entries = this.#data.entries.filter((entry) =>
+        !ids.has(entryId(entry))
+      );
+      return dropped;
+    });
+  }
+
+  // Stores an empty index unless there is one, so the cache exists as soon as
+  // it is opened
+  async [createIndex](): Promise<void> {
+    if (this.#created || this.#deleted) return;
+    await this.#backend.update(this.#indexKey, (bytes) => {
+      if (bytes !== undefined) return undefined;
+      const data: CacheData = { version: 3, entries: [] };
+      return new TextEncoder().encode(JSON.stringify(data));
+    });
+    this.#created = true;
+  }
+
+  [markDeleted](): void {
+    this.#deleted = true;
+  }
+
   // Simplified #ensureLoaded: loads lazily on first access if needed
   async #ensureLoaded(): Promise<void> {
     if (!this.#loaded) {
@@ -163,104 +815,343 @@ class CacheImpl implements Cache {
 
   async put(request: RequestInfo | URL, response: Response): Promise<void> {
     await this.#ensureLoaded(); // Load cache data if not already loaded
-    const req = request instanceof Request ? request : new Request(request);
-    const key = getRequestKey(req);
+    const req = toRequest(request);
+    validateCacheRequest(req);
+    validateCacheResponse(response);
+    await this.#commit([await this.#stage(req, response)]);
+  }
 
-    // Clone response to read body, as body can only be read once
-    const resClone = response.clone();
-    const bodyBuffer = await resClone.arrayBuffer();
-    const bodyBase64 = arrayBufferToBase64(bodyBuffer);
+  // Turns a request/response pair into an entry, with the body written under
+  // a temp key until it is committed
+  async #stage(request: Request, response: Response): Promise<StagedEntry> {
+    // Like native Deno, put consumes the response body. It is streamed
+    // straight to the backend so large bodies are never held in memory (if
+    // the backend supports streaming), and only moved into place once we
+    // hold the lock.
+    const pending = response.body === null
+      ? null
+      : await writeTempBlob(this.#backend, this.#blobPrefix, response.body);
 
+    const now = Date.now();
     const entry: StoredCacheEntry = {
       request: {
-        url: req.url,
-        method: req.method,
-        headers: headersToRecord(req.headers),
+        url: request.url,
+        method: request.method,
+        headers: headersToRecord(request.headers),
       },
       response: {
-        status: resClone.status,
-        statusText: resClone.statusText,
-        headers: headersToRecord(resClone.headers),
-        body: bodyBase64,
+        status: response.status,
+        statusText: response.statusText,
+        headers: headersToRecord(response.headers),
+        body: pending?.body ?? null,
       },
+      storedAt: now,
+      accessedAt: now,
+      id: crypto.randomUUID(),
     };
-    this.#data.entries[key] = entry;
-    await this.#save(); // Save changes
+    return { request, entry, pending };
+  }
+
+  // Stores staged entries with a single write of the index, replacing the
+  // entries their requests match. When that fails none of them is stored.
+  async #commit(staged: StagedEntry[]): Promise<void> {
+    const committed = new Set<PendingBlob>();
+    try {
+      await this.#update(async () => {
+        const dropped: StoredCacheEntry[] = [];
+        for (const { request, entry, pending } of staged) {
+          if (pending) {
+            await commitBlob(this.#backend, this.#blobPrefix, pending);
+            committed.add(pending);
+          }
+          // Replace the entries this request would match, keeping other variants
+          const replaced = new Set(this.#queryCache(request));
+          this.#data.entries = this.#data.entries.filter((stored) =>
+            !replaced.has(stored)
+          );
+          this.#data.entries.push(entry);
+          dropped.push(...replaced);
+        }
+        return [...dropped, ...this.#evict() ?? []];
+      });
+    } catch (error) {
+      // E.g. the cache was deleted while the bodies were written
+      await this.#discard(
+        staged.filter(({ pending }) => pending && !committed.has(pending)),
+      );
+      throw error;
+    }
+    await this.#options.afterPut?.();
+  }
+
+  // Removes the temp bodies of entries that won't be committed
+  async #discard(staged: StagedEntry[]): Promise<void> {
+    for (const { pending } of staged) {
+      if (pending) await this.#backend.delete(pending.tempKey).catch(() => {});
+    }
+  }
+
+  // Returns every stored entry matching the request, in insertion order
+  #queryCache(
+    requestQuery: Request,
+    options?: CacheQueryOptions,
+  ): StoredCacheEntry[] {
+    return this.#data.entries.filter((entry) =>
+      requestMatchesCachedItem(requestQuery, entry, options)
+    );
+  }
+
+  // Entries matching the request, or every entry when no request is given
+  async [queryEntries](
+    request?: RequestInfo | URL,
+    options?: CacheQueryOptions,
+  ): Promise<StoredCacheEntry[]> {
+    if (this.#deleted) return [];
+    await this.#ensureLoaded(); // Load cache data if not already loaded
+    if (request === undefined) return [...this.#data.entries];
+    const requestQuery = toRequest(request);
+    if (requestQuery.method !== "GET" && !options?.ignoreMethod) {
+      return [];
+    }
+    return this.#queryCache(requestQuery, options);
+  }
+
+  // Builds a Response streaming its body from the blob, or undefined when
+  // the blob has gone missing. Counts as an access of the entry.
+  async [openResponse](
+    entry: StoredCacheEntry,
+  ): Promise<Response | undefined> {
+    let body: ReadableStream<Uint8Array> | null = null;
+    if (entry.response.body !== null) {
+      const stream = await readStream(
+        this.#backend,
+        this.#blobPrefix + entry.response.body.hash,
+      );
+      if (stream === undefined) return undefined;
+      body = stream;
+    }
+    await this.#recordAccess(entry);
+    return new Response(body, {
+      status: entry.response.status,
+      statusText: entry.response.statusText,
+      headers: new Headers(entry.response.headers),
+    });
   }
 
   async match(
     request: RequestInfo | URL,
-    _options?: CacheQueryOptions, // Options like ignoreSearch not implemented yet
+    options?: CacheQueryOptions,
   ): Promise<Response | undefined> {
-    await this.#ensureLoaded(); // Load cache data if not already loaded
-    const key = getRequestKey(request);
-    // TODO: Implement options like ignoreSearch, ignoreMethod etc.
-    const entry = this.#data.entries[key];
-
-    if (entry) {
-      const body = base64ToArrayBuffer(entry.response.body);
-      return new Response(body, {
-        status: entry.response.status,
-        statusText: entry.response.statusText,
-        headers: new Headers(entry.response.headers),
-      });
+    const [entry] = await this[queryEntries](request, options);
+    const response = entry && await this[openResponse](entry);
+    if (response !== undefined || this.#deleted) return response;
+    // Fall back to the seed, which stored entries take precedence over
+    for (
+      const seeded of await this.#options.seed?.caches(this.#cacheName) ?? []
+    ) {
+      const seededResponse = await seeded.match(request, options);
+      if (seededResponse !== undefined) return seededResponse;
     }
     return undefined;
   }
 
   async delete(
     request: RequestInfo | URL,
-    _options?: CacheQueryOptions, // Options like ignoreSearch not implemented yet
+    options?: CacheQueryOptions,
   ): Promise<boolean> {
     await this.#ensureLoaded(); // Load cache data if not already loaded
-    const key = getRequestKey(request);
-    // TODO: Implement options
-    if (this.#data.entries[key]) {
-      delete this.#data.entries[key];
-      await this.#save(); // Save changes
-      return true;
+    const requestQuery = toRequest(request);
+    if (
+      this.#deleted ||
+      (requestQuery.method !== "GET" && !options?.ignoreMethod)
+    ) {
+      return false;
     }
-    return false;
+    let deleted = false;
+    await this.#update(() => {
+      const matches = new Set(this.#queryCache(requestQuery, options));
+      if (matches.size === 0) return undefined;
+
+      this.#data.entries = this.#data.entries.filter((entry) =>
+        !matches.has(entry)
+      );
+      deleted = true;
+      return [...matches];
+    });
+    return deleted;
   }
 
-  async add(request: RequestInfo | URL): Promise<void> {
+  async add(
+    request: RequestInfo | URL,
+    options?: AddAllOptions,
+  ): Promise<void> {
     await this.#ensureLoaded(); // Load cache data if not already loaded (needed before addAll)
-    await this.addAll([request]);
+    await this.addAll([request], options);
   }
 
-  async addAll(requests: ReadonlyArray<RequestInfo | URL>): Promise<void> {
+  async addAll(
+    requests: ReadonlyArray<RequestInfo | URL>,
+    options: AddAllOptions = {},
+  ): Promise<void> {
     await this.#ensureLoaded(); // Load cache data if not already loaded
-    // Fetch each request and put it in the cache
-    // Note: This uses the *original* fetch, not potentially polyfilled one
-    const promises = requests.map(async (requestInfo) => {
-      const request = requestInfo instanceof Request
-        ? requestInfo
-        : new Request(requestInfo);
-      // Important: Use original fetch to avoid potential loops if fetch is also patched
-      const response = await fetch(request.clone()); // Clone req for fetch
-      if (!response.ok) {
-        throw new TypeError(
-          `Failed to fetch "${request.url}": ${response.status} ${response.statusText}`,
+    const {
+      concurrency = DEFAULT_ADD_ALL_CONCURRENCY,
+      retries = 0,
+      retryDelay = DEFAULT_RETRY_DELAY_MS,
+      signal,
+    } = options;
+    if (!(concurrency >= 1)) {
+      throw new RangeError(
+        `Invalid addAll concurrency: ${concurrency} (expected at least 1)`,
+      );
+    }
+    if (!(retries >= 0) || !(retryDelay >= 0)) {
+      throw new RangeError(
+        `Invalid addAll retries: ${retries} with delay ${retryDelay} (expected non-negative numbers)`,
+      );
+    }
+    signal?.throwIfAborted();
+    // Validate every request before fetching any of them
+    const validatedRequests = requests.map((requestInfo) => {
+      const request = toRequest(requestInfo);
+      validateCacheRequest(request);
+      return request;
+    });
+
+    // Fetch the requests a few at a time, staging each response. The first
+    // failure stops the others, so nothing is stored.
+    const controller = new AbortController();
+    const fetchSignal = signal
+      ? AbortSignal.any([signal, controller.signal])
+      : controller.signal;
+    const staged: StagedEntry[] = [];
+    let failure: { error: unknown } | undefined;
+    let next = 0;
+    const worker = async () => {
+      while (next < validatedRequests.length && !fetchSignal.aborted) {
+        const index = next++;
+        const request = validatedRequests[index];
+        try {
+          const response = await fetchWithRetry(
+            request,
+            retries,
+            retryDelay,
+            fetchSignal,
+          );
+          try {
+            if (!response.ok) {
+              throw new TypeError(
+                `Failed to fetch "${request.url}": ${response.status} ${response.statusText}`,
+              );
+            }
+            validateCacheResponse(response);
+          } catch (error) {
+            await response.body?.cancel().catch(() => {});
+            throw error;
+          }
+          staged[index] = await this.#stage(request, response);
+        } catch (error) {
+          failure ??= { error };
+          controller.abort(error);
+        }
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(concurrency, validatedRequests.length) },
+        worker,
+      ),
+    );
+    if (failure === undefined && signal?.aborted) {
+      failure = { error: signal.reason };
+    }
+    if (failure !== undefined) {
+      await this.#discard(staged.filter((entry) => entry !== undefined));
+      throw failure.error;
+    }
+    // Spec: a batch can't contain two requests for the same entry
+    for (const [index, { request }] of staged.entries()) {
+      if (
+        staged.slice(0, index).some((earlier) =>
+          requestMatchesCachedItem(request, earlier.entry)
+        )
+      ) {
+        await this.#discard(staged);
+        throw new DOMException(
+          `"${request.url}" is in the batch more than once`,
+          "InvalidStateError",
         );
       }
-      // \`this.put\` will handle saving internally after ensuring loaded again (though it's already loaded here)
-      await this.put(request, response);
-    });
-    // We don't need a final #save here, as each put call saves individually.
-    await Promise.all(promises);
+    }
+    await this.#commit(staged);
   }
 
   // Deno doesn't implement Cache.keys(), so we're omitting it from the polyfill
   // This ensures better compatibility with native Deno caches API
+  // (see FullSpecCacheImpl for the opt-in version)
+}
+
+// Cache with the methods native Deno lacks, used when `fullSpec` is enabled
+class FullSpecCacheImpl extends CacheImpl {
+  async matchAll(
+    request?: RequestInfo | URL,
+    options?: CacheQueryOptions,
+  ): Promise<ReadonlyArray<Response>> {
+    const entries = await this[queryEntries](request, options);
+    const responses = await Promise.all(
+      entries.map((entry) => this[openResponse](entry)),
+    );
+    return responses.filter((response): response is Response =>
+      response !== undefined
+    );
+  }
+
+  async keys(
+    request?: RequestInfo | URL,
+    options?: CacheQueryOptions,
+  ): Promise<ReadonlyArray<Request>> {
+    const entries = await this[queryEntries](request, options);
+    return entries.map(entryToRequest);
+  }
+}
+
+// Where a CacheStorageImpl keeps its caches
+interface CacheStorageOptions {
+  appId?: string;
+  backend?: StorageBackend;
+  encryptionKey?: CryptoKey;
+  limits?: CacheLimits;
+  cacheLimits?: Record<string, CacheLimits>;
+  seed?: CacheSeed;
+}
+
+// Encrypts the caches that were stored before encryption was enabled, the
+// bodies first so an encrypted index never points at missing ones
+async function encryptExistingCaches(
+  backend: StorageBackend,
+  encryptedBackend: EncryptedBackend,
+): Promise<void> {
+  for (const indexKey of await backend.list("")) {
+    if (!indexKey.endsWith(".json")) continue;
+    const blobPrefix = `${indexKey.slice(0, -".json".length)}.blobs/`;
+    for (const blobKey of await backend.list(blobPrefix)) {
+      await encryptedBackend.encryptExisting(blobKey);
+    }
+    await encryptedBackend.encryptExisting(indexKey);
+  }
+  await encryptedBackend.encryptExisting(CACHE_NAMES_KEY);
 }
 
 class CacheStorageImpl implements CacheStorage {
-  #storageRoot: string = ""; // Initialized asynchronously
+  #backend: StorageBackend | undefined; // Initialized asynchronously
   #caches: Map<string, CacheImpl> = new Map();
   #initialized: boolean = false;
   #initPromise: Promise<void> | null = null;
+  #options: CacheStorageOptions;
+  #storageDir: string = CUSTOM_BACKEND_STORAGE;
 
-  constructor() {
+  constructor(options: CacheStorageOptions = {}) {
+    this.#options = options;
     // Delay initialization until the first call that needs the path
     this.#initPromise = this.#initialize();
   }
@@ -275,21 +1166,39 @@ class CacheStorageImpl implements CacheStorage {
 
     const initWork = async () => {
       try {
-        const cacheDirPath = cacheDir();
-        assert(cacheDirPath, "Could not determine cache directory");
-        // Use a hash of the entry point for isolation, similar to localStorage polyfill
-        const entryPointUrl = import.meta.url;
-        const storageId = await this.#createStorageId(entryPointUrl);
-        this.#storageRoot = path.join(
-          cacheDirPath,
-          "deno-cache-api",
-          storageId,
-        );
-        await ensureDir(this.#storageRoot);
+        if (this.#options.backend) {
+          this.#backend = this.#options.backend;
+        } else {
+          // Use the app ID, or a hash of the entry point, for isolation,
+          // similar to localStorage polyfill
+          const apiDir = path.join(
+            await storageDir("cache"),
+            "deno-cache-api",
+          );
+          const entryPointUrl = import.meta.url;
+          const legacyStorageId = await createStorageId(entryPointUrl);
+          const storageRoot = path.join(
+            apiDir,
+            this.#options.appId ?? legacyStorageId,
+          );
+          await moveLegacyStorage(
+            path.join(apiDir, legacyStorageId),
+            storageRoot,
+          );
+          await ensureDir(storageRoot);
+          this.#backend = new JsonFileBackend(storageRoot);
+          this.#storageDir = storageRoot;
+        }
+        if (this.#options.encryptionKey) {
+          const encryptedBackend = new EncryptedBackend(
+            this.#backend,
+            this.#options.encryptionKey,
+          );
+          await encryptExistingCaches(this.#backend, encryptedBackend);
+          this.#backend = encryptedBackend;
+        }
+        await this.#enforceLimits(this.#backend);
         this.#initialized = true;
-        // console.log(
-        //   `[Cache Polyfill] CacheStorage initialized at: ${this.#storageRoot}`,
-        // );
       } catch (error) {
         throw new Error(
           "[Cache Polyfill] CacheStorage failed to initialize:" +
@@ -310,41 +1219,57 @@ class CacheStorageImpl implements CacheStorage {
     await this.#ensureInitialized();
   }
 
-  // Private ensure method used internally
-  async #ensureInitialized(): Promise<void> {
+  // Directory the caches are stored in once initialized, including the app ID
+  // or module hash subdirectory
+  get storageDir(): string {
+    return this.#storageDir;
+  }
+
+  // Private ensure method used internally, returns the backend once ready
+  async #ensureInitialized(): Promise<StorageBackend> {
     // If initialization promise exists, await it
     if (this.#initPromise) {
       await this.#initPromise;
     }
     // After awaiting, check if initialization was successful
-    if (!this.#initialized) {
+    if (!this.#initialized || this.#backend === undefined) {
       // If still not initialized, throw an error (initialization must have failed)
       throw new Error(
         "[Cache Polyfill] CacheStorage is not initialized. Check logs for initialization errors.",
       );
     }
+    return this.#backend;
   }
 
-  async #createStorageId(url: string): Promise<string> {
-    // Simple hash function for storage isolation
-    const encoder = new TextEncoder();
-    const data = encoder.encode(url);
-    const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("")
-      .slice(0, 16); // Use a shorter hash for filename
+  async open(cacheName: string): Promise<Cache> {
+    const backend = await this.#ensureInitialized(); // Ensure storage is ready
+    const cache = await this.#getCache(cacheName, backend);
+    // Like native Deno, opening creates the cache
+    await cache[createIndex]();
+    return cache;
   }
 
-  async open(cacheName: string): Promise<Cache> {
-    await this.#ensureInitialized(); // Ensure storage root is ready
+  // Returns the handle of a cache, creating it on first use
+  async #getCache(
+    cacheName: string,
+    backend: StorageBackend,
+  ): Promise<CacheImpl> {
     if (this.#caches.has(cacheName)) {
       return this.#caches.get(cacheName)!;
     }
-    const storagePath = path.join(this.#storageRoot, `${cacheName}.json`);
+    const name = await storageName(backend, cacheName);
+    if (name !== cacheName) await this.#addCacheName(backend, name, cacheName);
+    if (this.#caches.has(cacheName)) {
+      return this.#caches.get(cacheName)!; // Opened concurrently
+    }
     // CacheImpl constructor is now lightweight
-    const cacheInstance = new CacheImpl(cacheName, storagePath);
+    const cacheInstance = this[createCache](cacheName, name, backend, {
+      limits: this.#options.cacheLimits?.[cacheName],
+      afterPut: this.#options.limits
+        ? () => this.#enforceTotalLimits(backend)
+        : undefined,
+      seed: this.#options.seed,
+    });
     // Loading is deferred until first use via cacheInstance.#ensureLoaded()
     this.#caches.set(cacheName, cacheInstance);
     // console.log(
@@ -353,56 +1278,618 @@ class CacheStorageImpl implements CacheStorage {
     return cacheInstance;
   }
 
+  [createCache](
+    cacheName: string,
+    storageName: string,
+    backend: StorageBackend,
+    options: CacheOptions,
+  ): CacheImpl {
+    return new CacheImpl(cacheName, storageName, backend, options);
+  }
+
+  // Records the name of a cache stored under a hash, before anything is
+  // stored under it
+  async #addCacheName(
+    backend: StorageBackend,
+    storageName: string,
+    cacheName: string,
+  ): Promise<void> {
+    await backend.update(CACHE_NAMES_KEY, (bytes) => {
+      const names = parseJson<Record<string, string>>(bytes) ?? {};
+      if (names[storageName] === cacheName) return undefined;
+      names[storageName] = cacheName;
+      return new TextEncoder().encode(JSON.stringify(names));
+    });
+  }
+
+  // Names of the stored caches, sorted for a stable order
+  async [listCacheNames](): Promise<string[]> {
+    return await this.#cacheNames(await this.#ensureInitialized());
+  }
+
+  async #cacheNames(backend: StorageBackend): Promise<string[]> {
+    const names = parseJson<Record<string, string>>(
+      await backend.get(CACHE_NAMES_KEY),
+    ) ?? {};
+    const cacheNames = new Set<string>();
+    for (const key of await backend.list("")) {
+      if (!key.endsWith(".json")) continue;
+      const name = key.slice(0, -".json".length);
+      if (!HASHED_STORAGE_NAME.test(name)) {
+        cacheNames.add(name); // Stored by an older version
+      } else if (Object.hasOwn(names, name)) {
+        cacheNames.add(names[name]);
+      }
+    }
+    return [...cacheNames].sort();
+  }
+
+  // Removes what is over the limits of each cache and of all caches together
+  async #enforceLimits(backend: StorageBackend): Promise<void> {
+    const { limits, cacheLimits = {} } = this.#options;
+    for (const cacheName of await this.#cacheNames(backend)) {
+      if (cacheLimits[cacheName] !== undefined) {
+        await (await this.#getCache(cacheName, backend))[enforceLimits]();
+      }
+    }
+    if (limits !== undefined) await this.#enforceTotalLimits(backend);
+  }
+
+  // Removes the expired and least recently used entries of all caches until
+  // the others fit in the limits for all caches together
+  async #enforceTotalLimits(backend: StorageBackend): Promise<void> {
+    const limits = this.#options.limits;
+    if (limits === undefined) return;
+    const candidates = [];
+    for (const cacheName of await this.#cacheNames(backend)) {
+      const cache = await this.#getCache(cacheName, backend);
+      for (const candidate of await cache[evictionCandidates]()) {
+        candidates.push({ ...candidate, cache });
+      }
+    }
+    const evictedIds = new Map<CacheImpl, Set<string>>();
+    for (
+      const { cache, id } of selectEvictions(candidates, limits, Date.now())
+    ) {
+      evictedIds.set(cache, (evictedIds.get(cache) ?? new Set()).add(id));
+    }
+    for (const [cache, ids] of evictedIds) {
+      await cache[removeEntries](ids);
+    }
+  }
+
   async has(cacheName: string): Promise<boolean> {
-    await this.#ensureInitialized();
-    // Check file existence directly, no need to instantiate CacheImpl
-    const storagePath = path.join(this.#storageRoot, `${cacheName}.json`);
-    return await exists(storagePath, { isFile: true });
+    const backend = await this.#ensureInitialized();
+    // Check the index directly, no need to instantiate CacheImpl
+    const name = await storageName(backend, cacheName);
+    return (await backend.get(`${name}.json`)) !== undefined;
   }
 
   async delete(cacheName: string): Promise<boolean> {
-    await this.#ensureInitialized();
-    // Remove from in-memory map first
+    const backend = await this.#ensureInitialized();
+    // Remove from in-memory map first, and stop the handle from writing the
+    // cache back
+    this.#caches.get(cacheName)?.[markDeleted]();
     const existedInMemory = this.#caches.delete(cacheName);
 
-    const storagePath = path.join(this.#storageRoot, `${cacheName}.json`);
-    let existedOnDisk = false;
+    let existedInBackend = false;
     try {
-      // Check existence before removing to return correct boolean
-      if (await exists(storagePath, { isFile: true })) {
-        existedOnDisk = true;
-        await Deno.remove(storagePath);
-        // console.log(`[Cache Polyfill] Deleted cache "${cacheName}" from disk.`); // Added log
-      }
+      const name = await storageName(backend, cacheName);
+      // Hold the cache's lock so a concurrent put in another process either
+      // lands before the removal or fails, instead of leaving a partial cache
+      await backend.update(`${name}.json`, async (index) => {
+        if (index === undefined) return undefined;
+        existedInBackend = true;
+        for (const blobKey of await backend.list(`${name}.blobs/`)) {
+          await backend.delete(blobKey);
+        }
+        return null; // Removes the index
+      });
     } catch (error) {
-      // Ignore NotFound errors during delete, but log others
-      if (!(error instanceof Deno.errors.NotFound)) {
-        throw new Error(
-          `Error when trying delete cache: ${cacheName} error: ${error}`,
-        );
-      }
-      // If error is NotFound, existedOnDisk remains false, so we fall through correctly.
+      throw new Error(
+        `Error when trying delete cache: ${cacheName} error: ${error}`,
+      );
     }
     // Return true if it existed either in memory (meaning it might have pending ops)
-    // or on disk (meaning it was physically present).
-    return existedInMemory || existedOnDisk;
+    // or in the backend (meaning it was physically present).
+    return existedInMemory || existedInBackend;
   }
 
   // Deno doesn't implement CacheStorage.keys() nor CacheStorage.match(), so we're omitting it from the polyfill
   // This ensures better compatibility with native Deno caches API
+  // (see FullSpecCacheStorageImpl for the opt-in version)
+}
+
+// CacheStorage with the methods native Deno lacks, used when `fullSpec` is enabled
+class FullSpecCacheStorageImpl extends CacheStorageImpl {
+  override [createCache](
+    cacheName: string,
+    storageName: string,
+    backend: StorageBackend,
+    options: CacheOptions,
+  ): CacheImpl {
+    return new FullSpecCacheImpl(cacheName, storageName, backend, options);
+  }
+
+  async keys(): Promise<string[]> {
+    return await this[listCacheNames]();
+  }
+
+  async match(
+    request: RequestInfo | URL,
+    options?: MultiCacheQueryOptions,
+  ): Promise<Response | undefined> {
+    if (options?.cacheName !== undefined) {
+      if (!(await this.has(options.cacheName))) return undefined;
+      const cache = await this.open(options.cacheName);
+      return await cache.match(request, options);
+    }
+    for (const cacheName of await this.keys()) {
+      const cache = await this.open(cacheName);
+      const response = await cache.match(request, options);
+      if (response) return response;
+    }
+    return undefined;
+  }
+}
+
+// ================= Seeds ===============
+
+// Storage name of the seeded entries that every cache falls back to, e.g.
+// those of HAR files without cache names. Never a hashed storage name.
+const ANY_CACHE_SEED = "any-cache";
+
+// Read-only caches, e.g. embedded in the executable, that Cache.match falls
+// back to
+class CacheSeed {
+  #backend: StorageBackend;
+  #caches = new Map<string, Promise<CacheImpl>>();
+  #anyCache: CacheImpl;
+
+  constructor(backend: StorageBackend) {
+    this.#backend = backend;
+    this.#anyCache = new CacheImpl("", ANY_CACHE_SEED, backend, {
+      readOnly: true,
+    });
+  }
+
+  // The seeded caches a cache falls back to, its own first
+  async caches(cacheName: string): Promise<CacheImpl[]> {
+    let cache = this.#caches.get(cacheName);
+    if (cache === undefined) {
+      cache = storageName(this.#backend, cacheName).then((name) =>
+        new CacheImpl(cacheName, name, this.#backend, { readOnly: true })
+      );
+      this.#caches.set(cacheName, cache);
+    }
+    return [await cache, this.#anyCache];
+  }
+}
+
+// A response to seed a cache with. Without a cache name it is seeded into
+// every cache.
+interface SeedEntry {
+  cacheName?: string;
+  request: Request;
+  response: Response;
+}
+
+// Stores seed entries in memory, laid out like the caches of the polyfill.
+// Entries that put rejects, e.g. POST requests, are skipped.
+async function seedBackend(entries: SeedEntry[]): Promise<MemoryBackend> {
+  const backend = new MemoryBackend();
+  const caches = new Map<string | undefined, CacheImpl>();
+  const names: Record<string, string> = {};
+  for (const { cacheName, request, response } of entries) {
+    let cache = caches.get(cacheName);
+    if (cache === undefined) {
+      const name = cacheName === undefined
+        ? ANY_CACHE_SEED
+        : hashedStorageName(cacheName);
+      if (cacheName !== undefined) names[name] = cacheName;
+      cache = new CacheImpl(cacheName ?? "", name, backend);
+      caches.set(cacheName, cache);
+    }
+    await cache.put(request, response).catch(() => {});
+  }
+  await backend.set(
+    CACHE_NAMES_KEY,
+    new TextEncoder().encode(JSON.stringify(names)),
+  );
+  return backend;
+}
+
+// The parts of a HAR 1.2 file (http://www.softwareishard.com/blog/har-12-spec/)
+// the seeds use. `_cacheName` is a custom field naming the cache of an entry.
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  _cacheName?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: never[];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: never[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      encoding?: string;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+// Reads the entries of a HAR file. Entries without a recorded body, which
+// browsers leave out e.g. for large responses, are skipped.
+function parseHar(text: string, filePath: string): SeedEntry[] {
+  const har = JSON.parse(text) as Partial<Har>;
+  if (!Array.isArray(har.log?.entries)) {
+    throw new TypeError(`Invalid HAR file "${filePath}": no log.entries`);
+  }
+  const entries: SeedEntry[] = [];
+  for (const entry of har.log.entries) {
+    const { request, response, _cacheName: cacheName } = entry;
+    const { text = "", encoding, size } = response?.content ?? {};
+    if (response?.content?.text === undefined && size !== 0) continue;
+    try {
+      const toHeaders = (headers: HarHeader[] = []) =>
+        new Headers(headers.map(({ name, value }) => [name, value]));
+      const body = encoding === "base64"
+        ? new Uint8Array(base64ToArrayBuffer(text))
+        : new TextEncoder().encode(text);
+      entries.push({
+        cacheName,
+        request: new Request(request.url, {
+          method: request.method,
+          headers: toHeaders(request.headers),
+        }),
+        response: new Response(
+          // Null body statuses can't have one
+          [101, 204, 205, 304].includes(response.status) ? null : body,
+          {
+            status: response.status,
+            statusText: response.statusText,
+            headers: toHeaders(response.headers),
+          },
+        ),
+      });
+    } catch {
+      // E.g. a status outside 200-599, which Response rejects
+    }
+  }
+  return entries;
+}
+
+// Opens a seed directory or HAR file, resolving relative paths against the
+// main module like the asset functions do
+async function openSeed(seed: string | URL): Promise<CacheSeed> {
+  const seedPath = seed instanceof URL
+    ? path.fromFileUrl(seed)
+    : path.isAbsolute(seed)
+    ? seed
+    : path.fromFileUrl(new URL(seed.replaceAll("\\", "/"), Deno.mainModule));
+  let info: Deno.FileInfo;
+  try {
+    info = await Deno.stat(seedPath);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    throw new Deno.errors.NotFound(
+      `Cache seed "${seedPath}" not found, was it included with \`deno compile --include\`?`,
+      { cause: error },
+    );
+  }
+  if (info.isDirectory) return new CacheSeed(new JsonFileBackend(seedPath));
+  const entries = parseHar(await Deno.readTextFile(seedPath), seedPath);
+  return new CacheSeed(await seedBackend(entries));
+}
+
+// Records a stored entry as a HAR entry, with text bodies as they are
+async function toHarEntry(
+  cacheName: string,
+  request: Request,
+  response: Response,
+): Promise<HarEntry> {
+  const toHarHeaders = (headers: Headers) =>
+    [...headers].map(([name, value]) => ({ name, value }));
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  let content: HarEntry["response"]["content"];
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    content = { size: bytes.length, mimeType: "", text };
+  } catch {
+    content = {
+      size: bytes.length,
+      mimeType: "",
+      text: bytesToBase64(bytes),
+      encoding: "base64",
+    };
+  }
+  content.mimeType = response.headers.get("content-type") ?? "";
+  return {
+    _cacheName: cacheName,
+    startedDateTime: new Date().toISOString(),
+    time: 0,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: "HTTP/1.1",
+      headers: toHarHeaders(request.headers),
+      queryString: [...new URL(request.url).searchParams].map((
+        [name, value],
+      ) => ({ name, value })),
+      cookies: [],
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: "HTTP/1.1",
+      headers: toHarHeaders(response.headers),
+      cookies: [],
+      content,
+      redirectURL: "",
+      headersSize: -1,
+      bodySize: bytes.length,
+    },
+    cache: {},
+    timings: { send: 0, wait: 0, receive: 0 },
+  };
+}
+
+/** Options for {@linkcode captureCacheSeed}. */
+export interface CaptureCacheSeedOptions {
+  /**
+   * Where to read the caches from. It needs `CacheStorage.keys()` (unless
+   * `cacheNames` is set) and `Cache.keys()`, which native Deno lacks, so use
+   * the polyfill in `fullSpec` mode.
+   *
+   * Defaults to `globalThis.caches`.
+   */
+  caches?: CacheStorage;
+  /** Names of the caches to capture. Defaults to all of them. */
+  cacheNames?: string[];
+}
+
+/**
+ * Captures caches into a seed for the `seed` option of
+ * {@linkcode setupCachesPolyfill}, e.g. in a build script before
+ * `deno compile --include`. An `output` ending in `.har` is written as a HAR
+ * file, anything else as a directory, which must not exist or be empty.
+ * Resolves with the number of captured responses.
+ *
+ * @example
+ * ```ts
+ * import { captureCacheSeed, setupCachesPolyfill } from "jsr:@sigma/deno-compile-extra/cachesPolyfill";
+ * import { MemoryBackend } from "jsr:@sigma/deno-compile-extra/backends";
+ *
+ * await setupCachesPolyfill({ backend: new MemoryBackend(), fullSpec: true, force: true });
+ * const cache = await caches.open("schemas");
+ * await cache.add("https://example.com/api/schema.json");
+ * await captureCacheSeed("seed/");
+ * // deno compile --include seed/ main.ts
+ * ```
+ */
+export async function captureCacheSeed(
+  output: string,
+  options: CaptureCacheSeedOptions = {},
+): Promise<number> {
+  // Native Deno lacks the keys() methods
+  const cacheStorage = (options.caches ?? globalThis.caches) as
+    & CacheStorage
+    & { keys?: () => Promise<string[]> };
+  const cacheNames = options.cacheNames ?? await cacheStorage.keys?.();
+  if (cacheNames === undefined) {
+    throw new TypeError(
+      "Capturing every cache needs CacheStorage.keys(), set up the caches polyfill with `fullSpec` or pass `cacheNames`",
+    );
+  }
+
+  const harEntries: HarEntry[] = [];
+  const seedEntries: SeedEntry[] = [];
+  for (const cacheName of cacheNames) {
+    if (!(await cacheStorage.has(cacheName))) {
+      throw new Deno.errors.NotFound(`Cache "${cacheName}" doesn't exist`);
+    }
+    const cache = await cacheStorage.open(cacheName) as
+      & Cache
+      & { keys?: () => Promise<ReadonlyArray<Request>> };
+    if (cache.keys === undefined) {
+      throw new TypeError(
+        "Capturing caches needs Cache.keys(), set up the caches polyfill with `fullSpec`",
+      );
+    }
+    for (const request of await cache.keys()) {
+      const response = await cache.match(request);
+      if (response === undefined) continue; // Deleted in the meantime
+      if (output.endsWith(".har")) {
+        harEntries.push(await toHarEntry(cacheName, request, response));
+      } else {
+        seedEntries.push({ cacheName, request, response });
+      }
+    }
+  }
+
+  if (output.endsWith(".har")) {
+    const har: Har = {
+      log: {
+        version: "1.2",
+        creator: { name: "@sigma/deno-compile-extra", version: "1" },
+        entries: harEntries,
+      },
+    };
+    await Deno.writeTextFile(output, JSON.stringify(har, null, 2));
+    return harEntries.length;
+  }
+
+  try {
+    for await (const _ of Deno.readDir(output)) {
+      throw new Deno.errors.AlreadyExists(
+        `Cache seed directory "${output}" isn't empty`,
+      );
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  const backend = await seedBackend(seedEntries);
+  const target = new JsonFileBackend(output);
+  for (const key of await backend.list("")) {
+    await target.set(key, (await backend.get(key))!);
+    if (!key.endsWith(".json")) continue;
+    const blobPrefix = `${key.slice(0, -".json".length)}.blobs/`;
+    for (const blobKey of await backend.list(blobPrefix)) {
+      await target.set(blobKey, (await backend.get(blobKey))!);
+    }
+  }
+  return seedEntries.length;
 }
 
 // ================= setupCachesPolyfill ===============
 
+export type { PolyfillStatus } from "../utils.ts";
+
+// Deno's own caches, captured before the polyfill replaces it
+const nativeCaches = Object.getOwnPropertyDescriptor(globalThis, "caches");
+// Name of the cache looked up to check whether the native caches work
+const PROBE_CACHE_NAME = "deno-compile-extra-probe";
+
+// Looks up a cache with the native caches, rejecting when they fail. has()
+// goes through the same storage as open() without creating anything
+async function probeNativeCaches(): Promise<void> {
+  const cacheStorage = readNativeGlobal("caches", nativeCaches) as CacheStorage;
+  await cacheStorage.has(PROBE_CACHE_NAME);
+}
+
+/** Options for {@linkcode setupCachesPolyfill}. */
+export interface CachesPolyfillOptions {
+  /**
+   * Also expose the parts of the Cache API that Deno's native implementation
+   * lacks: `Cache.keys()`, `Cache.matchAll()`, `CacheStorage.keys()` and
+   * `CacheStorage.match()`.
+   *
+   * Defaults to `false`, which keeps the same surface as native Deno.
+   */
+  fullSpec?: boolean;
+  /**
+   * ID the caches are stored under, e.g. `"com.example.my-app"`. Unlike the
+   * default ID, which is derived from the polyfill module URL, it stays the
+   * same when the executable is renamed or the package is upgraded. Caches
+   * found under the default ID are moved over the first time.
+   *
+   * Defaults to the `DENO_COMPILE_EXTRA_APP_ID` environment variable, so the
+   * side-effect import can use it too.
+   */
+  appId?: string;
+  /**
+   * Where to store the caches, e.g. a `MemoryBackend` or `KvBackend` from
+   * `jsr:@sigma/deno-compile-extra/backends`.
+   *
+   * Defaults to JSON files and blobs in the platform cache directory.
+   */
+  backend?: StorageBackend;
+  /**
+   * Encrypt the cached requests and bodies with AES-GCM using this key, a
+   * `CryptoKey` or 32 random bytes encoded as base64. Caches that were stored
+   * unencrypted are encrypted on first use, and cache entries that were
+   * tampered with fail to load.
+   *
+   * Defaults to the `DENO_COMPILE_EXTRA_ENCRYPTION_KEY` environment variable,
+   * or the key file named by `DENO_COMPILE_EXTRA_ENCRYPTION_KEY_FILE`.
+   */
+  encryptionKey?: CryptoKey | string;
+  /**
+   * Encrypt the caches (see `encryptionKey`) with the key in this file. The
+   * file is created with a new random key if it doesn't exist, and must only
+   * be accessible by the user on Unix (mode `0600`).
+   */
+  encryptionKeyFile?: string;
+  /**
+   * Limits for all caches together. When a `put` or the setup finds the
+   * caches over a limit, expired entries are removed first, then the least
+   * recently matched ones, until the rest fits.
+   *
+   * Access times are written to the cache index at most once a minute while
+   * only matching, so other processes see them with a delay.
+   *
+   * Defaults to no limits.
+   */
+  limits?: CacheLimits;
+  /**
+   * Limits for single caches, by cache name, enforced like `limits`.
+   *
+   * @example
+   * ```ts
+   * await setupCachesPolyfill({
+   *   limits: { maxSize: 500 * 1024 * 1024 },
+   *   cacheLimits: { "http-v1": { maxEntries: 1000, maxAge: 7 * 24 * 60 * 60 } },
+   * });
+   * ```
+   */
+  cacheLimits?: Record<string, CacheLimits>;
+  /**
+   * Read-only responses `Cache.match` falls back to when a cache has no
+   * stored entry, e.g. defaults embedded with `deno compile --include` so the
+   * executable works offline on first launch. Either a directory or a HAR
+   * file written by {@linkcode captureCacheSeed}, or a HAR file recorded
+   * elsewhere, whose entries without a `_cacheName` are seeded into every
+   * cache. Relative paths are resolved against the main module.
+   *
+   * Writes go to the `backend` as usual and take precedence. Seeded
+   * responses can't be deleted and don't count towards the limits.
+   */
+  seed?: string | URL;
+  /**
+   * `true` installs the polyfill even when Deno's native `caches` works, e.g.
+   * to test code using it under `deno test`. `false` keeps the native
+   * `caches`, removing a polyfill installed before.
+   *
+   * Defaults to probing the native `caches` with `caches.has()`, which
+   * doesn't create or change any cache, and installing the polyfill only when
+   * that fails.
+   */
+  force?: boolean;
+}
+
 /**
  * Sets up a Cache API polyfill for Deno standalone executables.
  *
  * This function creates a file-based CacheStorage implementation that persists data
- * between runs of the same compiled executable. When called in the standard Deno runtime
- * (not a compiled executable), this function has no effect.
+ * between runs of the same compiled executable. Unless `force` is set, it first probes
+ * Deno's native `caches` and has no effect when they work, like in the standard Deno
+ * runtime.
  *
- * Storage files are created in the system's cache directory, isolated based on a hash
- * of the entry point module URL.
+ * Storage files are created in the system's cache directory (or the directory named by
+ * the `DENO_COMPILE_EXTRA_DIR` environment variable), isolated based on the
+ * `appId` option, or a hash of the entry point module URL.
  *
  * @example
  * ```ts
@@ -414,20 +1901,38 @@ class CacheStorageImpl implements CacheStorage {
  * const cache = await caches.open("my-cache");
  * await cache.put(new Request("/data"), new Response("payload"));
  * ```
+ *
+ * @example Enumerating cached entries
+ * ```ts
+ * import { setupCachesPolyfill } from "jsr:@sigma/deno-compile-extra/cachesPolyfill";
+ *
+ * // Calling it again with options replaces the polyfill installed on import
+ * await setupCachesPolyfill({ fullSpec: true });
+ *
+ * for (const cacheName of await caches.keys()) {
+ *   const cache = await caches.open(cacheName);
+ *   console.log(cacheName, (await cache.keys()).map((req) => req.url));
+ * }
+ * ```
  */
-export async function setupCachesPolyfill(): Promise<void> {
-  // Only apply polyfill in standalone executables
-  if (!Deno.build.standalone) {
-    // console.log(
-    //   "[Cache Polyfill] Not running in standalone mode. Polyfill inactive.",
-    // );
+export async function setupCachesPolyfill(
+  options?: CachesPolyfillOptions,
+): Promise<void> {
+  // Prevent double-initialization, unless the caller asks for different options
+  // deno-lint-ignore no-explicit-any
+  const initialized = (globalThis as any).__cachesPolyfillInitialized === true;
+  if (initialized && options === undefined) {
+    // console.log("[Cache Polyfill] Already initialized.");
     return;
   }
 
-  // Prevent double-initialization
-  // deno-lint-ignore no-explicit-any
-  if ((globalThis as any).__cachesPolyfillInitialized) {
-    // console.log("[Cache Polyfill] Already initialized.");
+  // Only apply the polyfill when the native caches fail, unless forced
+  const decision = await choosePolyfill(options?.force, probeNativeCaches);
+  if (!decision.active) {
+    if (getPolyfillStatus("caches").active && nativeCaches) {
+      Object.defineProperty(globalThis, "caches", nativeCaches);
+    }
+    setPolyfillStatus("caches", decision);
     return;
   }
 
@@ -435,7 +1940,29 @@ export async function setupCachesPolyfill(): Promise<void> {
   //   "[Cache Polyfill] Applying Cache API polyfill for standalone executable...",
   // );
 
-  const cachesInstance = new CacheStorageImpl();
+  validateLimits(options?.limits, "the caches");
+  for (
+    const [cacheName, limits] of Object.entries(options?.cacheLimits ?? {})
+  ) {
+    validateLimits(limits, `cache "${cacheName}"`);
+  }
+
+  const storageOptions = {
+    appId: getAppId(options?.appId),
+    backend: options?.backend,
+    encryptionKey: await getEncryptionKey(
+      options?.encryptionKey,
+      options?.encryptionKeyFile,
+    ),
+    limits: options?.limits,
+    cacheLimits: options?.cacheLimits,
+    seed: options?.seed === undefined
+      ? undefined
+      : await openSeed(options.seed),
+  };
+  const cachesInstance = options?.fullSpec
+    ? new FullSpecCacheStorageImpl(storageOptions)
+    : new CacheStorageImpl(storageOptions);
 
   // Ensure CacheStorage base directory is initialized before declaring polyfill ready
   // This handles async initialization correctly.
@@ -451,13 +1978,16 @@ export async function setupCachesPolyfill(): Promise<void> {
     });
 
     // Mark initialization complete
-    Object.defineProperty(globalThis, "__cachesPolyfillInitialized", {
-      value: true,
-      writable: false,
-      enumerable: false,
-      configurable: false,
-    });
+    if (!initialized) {
+      Object.defineProperty(globalThis, "__cachesPolyfillInitialized", {
+        value: true,
+        writable: false,
+        enumerable: false,
+        configurable: false,
+      });
+    }
 
+    setPolyfillStatus("caches", decision, cachesInstance.storageDir);
     // console.log("[Cache Polyfill] Cache API polyfill assigned successfully.");
   } catch (error) {
     throw new Error(
@@ -467,5 +1997,22 @@ export async function setupCachesPolyfill(): Promise<void> {
   }
 }
 
+/**
+ * Returns whether the last {@linkcode setupCachesPolyfill} call installed the
+ * polyfill, and why.
+ *
+ * @example
+ * ```ts
+ * import { cachesPolyfillStatus } from "jsr:@sigma/deno-compile-extra/cachesPolyfill";
+ *
+ * if (!cachesPolyfillStatus().active) {
+ *   console.log("Using Deno's native caches");
+ * }
+ * ```
+ */
+export function cachesPolyfillStatus(): PolyfillStatus {
+  return getPolyfillStatus("caches");
+}
+
 // Automatically apply the polyfill when this module is imported
 await setupCachesPolyfill();
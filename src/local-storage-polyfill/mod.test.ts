@@ -1,5 +1,6 @@
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertRejects } from "@std/assert";
 import * as path from "@std/path";
+import { copy } from "@std/fs";
 
 // Helper function to compile a Deno script and return the path to the executable
 async function compileDenoScript(scriptPath: string): Promise<string> {
@@ -20,6 +21,57 @@ async function compileDenoScript(scriptPath: string): Promise<string> {
   return exePath;
 }
 
+// Helper function to write a test script next to a copy of the polyfill,
+// returning the temp dir and the script path. The whole src dir is copied,
+// so the script can import "./mod.ts" and "../utils.ts".
+async function createTestApp(
+  testScriptContent: string,
+): Promise<{ tempDir: string; testScriptPath: string }> {
+  const tempDir = await Deno.makeTempDir();
+  // https://github.com/denoland/deno/issues/28353
+  await copy(
+    path.fromFileUrl(new URL("../", import.meta.url)),
+    path.join(tempDir, "src"),
+  );
+  const testScriptPath = path.join(
+    tempDir,
+    "src",
+    "local-storage-polyfill",
+    "test_app.ts",
+  );
+  await Deno.writeTextFile(testScriptPath, testScriptContent);
+  return { tempDir, testScriptPath };
+}
+
+// Helper function to run a compiled test app and assert that it succeeded
+async function runTestApp(
+  executablePath: string,
+  tempDir: string,
+  args: string[] = [],
+  env?: Record<string, string>,
+): Promise<void> {
+  const runProcess = new Deno.Command(executablePath, {
+    cwd: tempDir,
+    args,
+    env,
+    stdin: "null",
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+  const status = await runProcess.status;
+  const output = await runProcess.output();
+
+  const decoder = new TextDecoder();
+  const outStr = decoder.decode(output.stdout);
+  const errStr = decoder.decode(output.stderr);
+
+  assertEquals(
+    status.success,
+    true,
+    `Test script failed:\n ${errStr}\n${outStr}`,
+  );
+}
+
 Deno.test("localStorage polyfill in compiled executable", async () => {
   // --- Step 1: Create a temporary test script ---
   const testScriptContent = `
@@ -47,74 +99,553 @@ Deno.test("localStorage polyfill in compiled executable", async () => {
     }
   `;
 
-  const tempDir = await Deno.makeTempDir();
-  const testScriptPath = path.join(tempDir, "test_app.ts");
-  // https://github.com/denoland/deno/issues/28353
-  const modFilePath = path.join(tempDir, "mod.ts");
-  // copy the content of mod.ts to tempDir
-  const modFileContent = await Deno.readTextFile(
-    new URL("./mod.ts", import.meta.url),
-  )
-    .then((file) => file.replaceAll("../utils.ts", "./utils.ts"));
-  await Deno.writeTextFile(modFilePath, modFileContent);
-  //copy the utils
-  const utilsFilePath = path.join(tempDir, "utils.ts");
-  const utilsFileContent = await Deno.readTextFile(
-    new URL("../utils.ts", import.meta.url),
-  );
-  await Deno.writeTextFile(utilsFilePath, utilsFileContent);
-  await Deno.writeTextFile(testScriptPath, testScriptContent);
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
 
   // --- Step 2: Compile the test script ---
   const executablePath = await compileDenoScript(testScriptPath);
-  {
-    // --- Step 3: Run the compiled executable ---
-    const runProcess = new Deno.Command(executablePath, {
+
+  // --- Step 3: Run the compiled executable ---
+  await runTestApp(executablePath, tempDir);
+  await runTestApp(executablePath, tempDir, ["clear"]);
+
+  await Deno.remove(tempDir, { recursive: true });
+});
+
+Deno.test("localStorage polyfill recovers from a corrupt file", async () => {
+  const testScriptContent = `
+    import { storageDir } from "../utils.ts";
+
+    // Mirror the storage location computed by the polyfill
+    const data = new TextEncoder().encode(new URL("./mod.ts", import.meta.url).href);
+    const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+    const id = Array.from(hash).map((b) => b.toString(16).padStart(2, "0")).join("").slice(0, 16);
+    const localStorageDir = await storageDir("data") + "/deno-localStorage";
+    const storagePath = localStorageDir + "/" + id + ".json";
+
+    if (Deno.args[0] === "corrupt") {
+      // What a write interrupted by an older version used to leave behind
+      await Deno.mkdir(localStorageDir, { recursive: true });
+      await Deno.writeTextFile(storagePath, '{"token":"abc","user":"ja');
+    }
+
+    await import("./mod.ts");
+
+    if (Deno.args[0] === "corrupt") {
+      if (localStorage.length !== 0) throw new Error("expected an empty store");
+      const backup = await Deno.readTextFile(storagePath + ".corrupt");
+      if (!backup.startsWith('{"token":"abc"')) throw new Error("backup lost");
+      localStorage.setItem("token", "def");
+    } else {
+      if (localStorage.getItem("token") !== "def") throw new Error("not saved");
+      localStorage.clear();
+      await Deno.remove(storagePath + ".corrupt");
+    }
+
+    // Writes go through a temp file that is renamed into place
+    for await (const entry of Deno.readDir(localStorageDir)) {
+      if (entry.name.startsWith(id) && entry.name.endsWith(".tmp")) {
+        throw new Error("temp file left behind: " + entry.name);
+      }
+    }
+  `;
+
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
+  const executablePath = await compileDenoScript(testScriptPath);
+
+  await runTestApp(executablePath, tempDir, ["corrupt"]);
+  await runTestApp(executablePath, tempDir);
+
+  await Deno.remove(tempDir, { recursive: true });
+});
+
+Deno.test("localStorage polyfill keeps keys from concurrent processes", async () => {
+  const WORKERS = 4;
+  const KEYS_PER_WORKER = 50;
+  const testScriptContent = `
+    import "./mod.ts";
+
+    const [command, arg] = Deno.args;
+
+    if (command === "worker") {
+      for (let i = 0; i < ${KEYS_PER_WORKER}; i++) {
+        localStorage.setItem("worker-" + arg + "-" + i, String(i));
+        // Every worker also hammers the same key
+        localStorage.setItem("shared", arg);
+      }
+    } else if (command === "check") {
+      for (let worker = 0; worker < Number(arg); worker++) {
+        for (let i = 0; i < ${KEYS_PER_WORKER}; i++) {
+          if (localStorage.getItem("worker-" + worker + "-" + i) !== String(i)) {
+            throw new Error("lost key worker-" + worker + "-" + i);
+          }
+        }
+      }
+      if (localStorage.getItem("shared") === null) throw new Error("lost shared key");
+      localStorage.clear();
+    }
+  `;
+
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
+  const executablePath = await compileDenoScript(testScriptPath);
+
+  await Promise.all(
+    Array.from(
+      { length: WORKERS },
+      (_, i) => runTestApp(executablePath, tempDir, ["worker", String(i)]),
+    ),
+  );
+  await runTestApp(executablePath, tempDir, ["check", String(WORKERS)]);
+
+  await Deno.remove(tempDir, { recursive: true });
+});
+
+Deno.test("localStorage polyfill exposes keys as named properties", async () => {
+  const testScriptContent = `
+    import "./mod.ts";
+
+    const assert = (condition: boolean, message: string) => {
+      if (!condition) throw new Error(message);
+    };
+
+    if (Deno.args[0] === "set") {
+      assert(localStorage instanceof Storage, "not an instance of Storage");
+
+      localStorage.foo = "bar";
+      assert(localStorage.getItem("foo") === "bar", "property assignment not stored");
+      assert(localStorage["foo"] === "bar", "indexed access failed");
+      assert("foo" in localStorage, "in operator failed");
+      assert(!("missing" in localStorage), "in operator found a missing key");
+      assert(localStorage.missing === undefined, "missing key is not undefined");
+
+      // Values are coerced to strings
+      localStorage.count = 42;
+      localStorage.setItem("flag", true as unknown as string);
+      assert(localStorage.count === "42", "number was not coerced");
+      assert(localStorage.getItem("flag") === "true", "boolean was not coerced");
+
+      // Methods win over stored keys with the same name, but assigning stores
+      Reflect.set(localStorage, "getItem", "shadow");
+      assert(typeof localStorage.getItem === "function", "method was replaced");
+      assert(localStorage.getItem("getItem") === "shadow", "method name key not stored");
+      assert(!Object.hasOwn(localStorage, "getItem"), "method name key is an own property");
+
+      delete localStorage.count;
+      assert(localStorage.getItem("count") === null, "delete did not remove the key");
+
+      const keys = Object.keys(localStorage).sort();
+      assert(JSON.stringify(keys) === '["flag","foo"]', "wrong keys: " + keys);
+      const copy = { ...localStorage };
+      assert(copy.foo === "bar" && copy.flag === "true", "wrong spread");
+      assert(localStorage.length === 3, "wrong len: " + localStorage.length);
+    } else {
+      // Property writes were persisted
+      assert(localStorage.foo === "bar", "foo not persisted");
+      assert(localStorage.flag === "true", "flag not persisted");
+      localStorage.clear();
+      assert(Object.keys(localStorage).length === 0, "not cleared");
+    }
+  `;
+
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
+  const executablePath = await compileDenoScript(testScriptPath);
+
+  await runTestApp(executablePath, tempDir, ["set"]);
+  await runTestApp(executablePath, tempDir, ["check"]);
+
+  await Deno.remove(tempDir, { recursive: true });
+});
+
+Deno.test("localStorage polyfill enforces its quota atomically", async () => {
+  const testScriptContent = `
+    import { setupLocalStorage } from "./mod.ts";
+
+    const expectQuotaExceeded = (fn: () => void) => {
+      try {
+        fn();
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "QuotaExceededError") return;
+        throw error;
+      }
+      throw new Error("expected a QuotaExceededError");
+    };
+
+    if (Deno.args[0] === "set") {
+      // The default quota is 10MB, like native Deno
+      expectQuotaExceeded(() => localStorage.setItem("huge", "x".repeat(11 * 1024 * 1024)));
+      if (localStorage.getItem("huge") !== null) throw new Error("huge value was stored");
+
+      await setupLocalStorage({ quota: 100 });
+      localStorage.setItem("key", "a".repeat(40));
+      expectQuotaExceeded(() => localStorage.setItem("key", "b".repeat(200)));
+      expectQuotaExceeded(() => localStorage.setItem("other", "c".repeat(60)));
+      // Multi-byte characters count as their UTF-8 size
+      expectQuotaExceeded(() => localStorage.setItem("other", "\u00e9".repeat(30)));
+      if (localStorage.getItem("key") !== "a".repeat(40)) throw new Error("old value lost");
+      if (localStorage.getItem("other") !== null) throw new Error("new key was stored");
+      // Replacing a value only counts the new one
+      localStorage.setItem("key", "d".repeat(90));
+    } else {
+      // Nothing from the failed calls reached the file
+      if (localStorage.getItem("key") !== "d".repeat(90)) throw new Error("wrong value on disk");
+      if (localStorage.length !== 1) throw new Error("wrong len: " + localStorage.length);
+      localStorage.clear();
+    }
+  `;
+
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
+  const executablePath = await compileDenoScript(testScriptPath);
+
+  await runTestApp(executablePath, tempDir, ["set"]);
+  await runTestApp(executablePath, tempDir, ["check"]);
+
+  await Deno.remove(tempDir, { recursive: true });
+});
+
+Deno.test("localStorage polyfill moves data to the chosen app ID", async () => {
+  const testScriptContent = `
+    import { setupLocalStorage } from "./mod.ts";
+    import { createStorageId, storageDir } from "../utils.ts";
+    import { exists } from "@std/fs";
+
+    const [step, appId] = Deno.args;
+    const localStorageDir = await storageDir("data") + "/deno-localStorage";
+    const legacyId = await createStorageId(new URL("./mod.ts", import.meta.url).href);
+    const legacyPath = localStorageDir + "/" + legacyId + ".json";
+    const appPath = localStorageDir + "/" + appId + ".json";
+
+    if (step === "legacy") {
+      localStorage.setItem("kept", "yes");
+    } else if (step === "explicit") {
+      let error;
+      try {
+        await setupLocalStorage({ appId: "../escape" });
+      } catch (e) {
+        error = e;
+      }
+      if (!(error instanceof TypeError)) throw new Error("invalid app ID accepted");
+
+      await setupLocalStorage({ appId });
+      if (localStorage.getItem("kept") !== "yes") throw new Error("data not migrated");
+      if (await exists(legacyPath)) throw new Error("legacy file left behind");
+      if (!(await exists(appPath))) throw new Error("app ID file missing");
+      localStorage.setItem("second", "1");
+    } else if (step === "env") {
+      // The side-effect import picked up DENO_COMPILE_EXTRA_APP_ID
+      if (localStorage.getItem("kept") !== "yes") throw new Error("kept missing");
+      if (localStorage.getItem("second") !== "1") throw new Error("second missing");
+      localStorage.clear();
+      await Deno.remove(appPath);
+      await Deno.remove(appPath + ".lock");
+    }
+  `;
+
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
+  const executablePath = await compileDenoScript(testScriptPath);
+  const appId = `deno-compile-extra-test-${crypto.randomUUID()}`;
+
+  await runTestApp(executablePath, tempDir, ["legacy", appId]);
+  await runTestApp(executablePath, tempDir, ["explicit", appId]);
+  await runTestApp(executablePath, tempDir, ["env", appId], {
+    DENO_COMPILE_EXTRA_APP_ID: appId,
+  });
+
+  await Deno.remove(tempDir, { recursive: true });
+});
+
+Deno.test("localStorage polyfill picks its directory from the environment", async () => {
+  const testScriptContent = `
+    import { createStorageId } from "../utils.ts";
+    import { exists } from "@std/fs";
+    import { dirname } from "@std/path";
+
+    const [step, root] = Deno.args;
+    const id = await createStorageId(new URL("./mod.ts", import.meta.url).href);
+    const fileName = "/deno-localStorage/" + id + ".json";
+
+    if (step === "migrate") {
+      // Older versions stored localStorage in the cache dir
+      await Deno.mkdir(root + "/cache/deno-localStorage", { recursive: true });
+      await Deno.writeTextFile(root + "/cache" + fileName, '{"kept":"yes"}');
+    }
+
+    await import("./mod.ts");
+
+    const expectedPath = {
+      migrate: root + "/data" + fileName,
+      override: root + "/override" + fileName,
+      // Without HOME, next to the executable
+      nohome: dirname(Deno.execPath()) + "/.deno-compile-extra" + fileName,
+    }[step]!;
+
+    if (step === "migrate") {
+      if (localStorage.getItem("kept") !== "yes") throw new Error("data not migrated");
+      if (await exists(root + "/cache" + fileName)) throw new Error("legacy file left behind");
+    } else {
+      localStorage.setItem("key", "value");
+    }
+    if (!(await exists(expectedPath))) throw new Error("no file at " + expectedPath);
+  `;
+
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
+  const executablePath = await compileDenoScript(testScriptPath);
+
+  const run = async (step: string, env: Record<string, string>) => {
+    const output = await new Deno.Command(executablePath, {
+      args: [step, tempDir],
+      env,
+      clearEnv: true,
       cwd: tempDir,
       stdin: "null",
       stdout: "piped",
       stderr: "piped",
-    }).spawn();
-    const status = await runProcess.status;
-    const output = await runProcess.output();
-
-    const decoder = new TextDecoder();
-    const outStr = decoder.decode(output.stdout);
-    const errStr = decoder.decode(output.stderr);
-
-    // --- Step 4: Check the output ---
-    // Clean up the temporary directory and executable
-
+    }).output();
     assertEquals(
-      status.success,
-      true,
-      `Test script failed:\n ${errStr}\n${outStr}`,
+      output.code,
+      0,
+      `${step} failed:\n${new TextDecoder().decode(output.stderr)}`,
     );
+  };
+
+  if (Deno.build.os === "linux") {
+    await run("migrate", {
+      XDG_CACHE_HOME: `${tempDir}/cache`,
+      XDG_DATA_HOME: `${tempDir}/data`,
+    });
   }
-  {
-    // --- Step 3: Run the compiled executable ---
-    const runProcess = new Deno.Command(executablePath, {
+  await run("override", { DENO_COMPILE_EXTRA_DIR: `${tempDir}/override` });
+  if (Deno.build.os !== "windows") await run("nohome", {});
+
+  await Deno.remove(tempDir, { recursive: true });
+  await Deno.remove(path.dirname(executablePath), { recursive: true });
+});
+
+Deno.test("localStorage polyfill fires storage events for other processes", async () => {
+  const testScriptContent = `
+    import { setupLocalStorage } from "./mod.ts";
+
+    if (Deno.args[0] === "listen") {
+      await setupLocalStorage({ watch: true });
+      localStorage.setItem("own", "write"); // Must not produce an event
+      const events = [];
+      globalThis.addEventListener("storage", (event) => {
+        if (!(event instanceof StorageEvent)) throw new Error("not a StorageEvent");
+        events.push([event.key, event.oldValue, event.newValue]);
+        if (event.key === null) {
+          console.log(JSON.stringify(events));
+          Deno.exit(0);
+        }
+      });
+      setTimeout(() => {
+        console.error("timed out waiting for events, got", JSON.stringify(events));
+        Deno.exit(1);
+      }, 20_000);
+      localStorage.setItem("ping", "0");
+      console.log("ready");
+    } else {
+      localStorage.setItem("ping", "1");
+      localStorage.removeItem("ping");
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      localStorage.clear();
+    }
+  `;
+
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
+  const executablePath = await compileDenoScript(testScriptPath);
+
+  const listener = new Deno.Command(executablePath, {
+    cwd: tempDir,
+    args: ["listen"],
+    stdin: "null",
+    stdout: "piped",
+    stderr: "inherit",
+  }).spawn();
+  const lines = listener.stdout
+    .pipeThrough(new TextDecoderStream())
+    .values();
+  assertEquals((await lines.next()).value?.trim(), "ready");
+
+  await runTestApp(executablePath, tempDir, ["write"]);
+
+  let output = "";
+  for await (const chunk of lines) output += chunk;
+  const status = await listener.status;
+  assertEquals(status.success, true);
+
+  // Events can be coalesced when writes land close together, but the final
+  // state has to be reported and none of them may come from the own write
+  const events: [string | null, string | null, string | null][] = JSON.parse(
+    output,
+  );
+  assertEquals(events.at(-1), [null, null, null]);
+  assertEquals(events.some(([key]) => key === "own"), false);
+
+  await Deno.remove(tempDir, { recursive: true });
+});
+
+Deno.test("localStorage polyfill can be forced onto a memory backend", async () => {
+  const { setupLocalStorage } = await import("./mod.ts");
+  const { MemoryBackend } = await import("../backends/mod.ts");
+  const backend = new MemoryBackend();
+
+  await setupLocalStorage({ backend, appId: "memory-test", force: true });
+  localStorage.setItem("key", "value");
+  localStorage.other = "1";
+  assertEquals(localStorage.getItem("key"), "value");
+  assertEquals(
+    JSON.parse(new TextDecoder().decode(await backend.get("memory-test.json"))),
+    { key: "value", other: "1" },
+  );
+
+  // A second setup reads the data back from the backend
+  await setupLocalStorage({ backend, appId: "memory-test", force: true });
+  assertEquals(localStorage.length, 2);
+  assertEquals(localStorage.other, "1");
+  localStorage.clear();
+});
+
+Deno.test("localStorage polyfill is only installed when native localStorage fails", async () => {
+  const { localStorageStatus, setupLocalStorage } = await import("./mod.ts");
+  const { MemoryBackend } = await import("../backends/mod.ts");
+
+  // Native localStorage works under deno test
+  await setupLocalStorage();
+  assertEquals(localStorageStatus(), { active: false, reason: "native-works" });
+  // ...and removes the polyfill the tests before installed
+  const native = Object.getOwnPropertyDescriptor(globalThis, "localStorage");
+
+  const backend = new MemoryBackend();
+  await setupLocalStorage({ backend, appId: "status-test", force: true });
+  assertEquals(localStorageStatus(), { active: true, reason: "forced" });
+  localStorage.setItem("key", "value");
+  assertEquals(await backend.list(""), ["status-test.json"]);
+
+  // Forcing the native side puts it back
+  await setupLocalStorage({ force: false });
+  assertEquals(localStorageStatus(), { active: false, reason: "forced" });
+  assertEquals(
+    Object.getOwnPropertyDescriptor(globalThis, "localStorage"),
+    native,
+  );
+  assertEquals(localStorage.getItem("key"), null);
+});
+
+Deno.test("localStorage polyfill encrypts its file at rest", async () => {
+  const testScriptContent = `
+    import { setupLocalStorage, flushLocalStorage } from "./mod.ts";
+
+    const [step, root] = Deno.args;
+    const filePath = root + "/deno-localStorage/encrypted-test.json";
+
+    if (step === "plain") {
+      await setupLocalStorage({ appId: "encrypted-test" });
+      localStorage.setItem("token", "secret");
+    } else if (step === "encrypt") {
+      await setupLocalStorage({ appId: "encrypted-test" });
+      if (localStorage.getItem("token") !== "secret") throw new Error("data lost");
+      localStorage.setItem("other", "value");
+      await flushLocalStorage();
+      const stored = await Deno.readTextFile(filePath + ".enc");
+      if (stored.includes("secret")) throw new Error("stored in plain text");
+      if ((await Deno.stat(filePath + ".enc")).mode! & 0o077) throw new Error("readable by others");
+      if (await Deno.stat(filePath).catch(() => null)) throw new Error("plain text file left behind");
+    } else if (step === "tamper") {
+      const bytes = await Deno.readFile(filePath + ".enc");
+      bytes[bytes.length - 1] ^= 1;
+      await Deno.writeFile(filePath + ".enc", bytes);
+    } else {
+      try {
+        await setupLocalStorage({ appId: "encrypted-test" });
+      } catch (error) {
+        console.log(String(error));
+        Deno.exit(2);
+      }
+      if (localStorage.getItem("other") !== "value") throw new Error("data lost");
+    }
+  `;
+
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
+  const executablePath = await compileDenoScript(testScriptPath);
+  const key = btoa(
+    String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))),
+  );
+
+  const run = async (step: string, env: Record<string, string> = {}) => {
+    return await new Deno.Command(executablePath, {
+      args: [step, tempDir],
+      env: { DENO_COMPILE_EXTRA_DIR: tempDir, ...env },
       cwd: tempDir,
-      args: ["clear"],
       stdin: "null",
       stdout: "piped",
       stderr: "piped",
-    }).spawn();
-    const status = await runProcess.status;
-    const output = await runProcess.output();
-
-    const decoder = new TextDecoder();
-    const outStr = decoder.decode(output.stdout);
-    const errStr = decoder.decode(output.stderr);
-
-    // --- Step 4: Check the output ---
-    // Clean up the temporary directory and executable
+    }).output();
+  };
+  const keyEnv = { DENO_COMPILE_EXTRA_ENCRYPTION_KEY: key };
 
+  for (const step of ["plain", "encrypt", "read"]) {
+    const output = await run(step, step === "plain" ? {} : keyEnv);
     assertEquals(
-      status.success,
-      true,
-      `Test script failed:\n ${errStr}\n${outStr}`,
+      output.code,
+      0,
+      `${step} failed:\n${new TextDecoder().decode(output.stderr)}`,
     );
   }
+  await run("tamper");
+  const output = await run("read", keyEnv);
+  assertEquals(output.code, 2);
+  assertEquals(
+    new TextDecoder().decode(output.stdout).includes("could not be decrypted"),
+    true,
+  );
+
   await Deno.remove(tempDir, { recursive: true });
+  await Deno.remove(path.dirname(executablePath), { recursive: true });
+});
+
+Deno.test("localStorage polyfill reads its encryption key from a file", async () => {
+  const { setupLocalStorage } = await import("./mod.ts");
+  const { MemoryBackend } = await import("../backends/mod.ts");
+  const dir = await Deno.makeTempDir();
+  try {
+    const keyFile = path.join(dir, "keys", "storage.key");
+    const backend = new MemoryBackend();
+
+    // A missing key file is created with a new key
+    await setupLocalStorage({
+      backend,
+      encryptionKeyFile: keyFile,
+      force: true,
+    });
+    localStorage.setItem("token", "secret");
+    if (Deno.build.os !== "windows") {
+      assertEquals((await Deno.stat(keyFile)).mode! & 0o777, 0o600);
+    }
+    await setupLocalStorage({
+      backend,
+      encryptionKeyFile: keyFile,
+      force: true,
+    });
+    assertEquals(localStorage.getItem("token"), "secret");
+    localStorage.clear();
+
+    if (Deno.build.os !== "windows") {
+      await Deno.chmod(keyFile, 0o644);
+      await assertRejects(
+        () =>
+          setupLocalStorage({
+            backend,
+            encryptionKeyFile: keyFile,
+            force: true,
+          }),
+        Error,
+        "accessible by other users",
+      );
+    }
+    await assertRejects(
+      () => setupLocalStorage({ backend, encryptionKey: "short", force: true }),
+      TypeError,
+      "Invalid encryption key",
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
 });
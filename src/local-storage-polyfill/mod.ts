@@ -2,12 +2,15 @@
  * LocalStorage polyfill for Deno standalone executables
  *
  * This module provides a basic localStorage implementation for Deno standalone executables
- * by storing data in JSON files in the local cache directory. It allows persistent storage
- * across executions of the same compiled executable.
+ * by storing data in JSON files in the local data directory. It allows persistent storage
+ * across executions of the same compiled executable. It is only installed when Deno's native
+ * localStorage throws, as it does in compiled executables, see {@linkcode localStorageStatus}.
  *
  * ## Limitations
  *
- * - Storage is based on the executable name, so if different executables have the same name, they will share the same storage.
+ * - Unless an `appId` is set (see {@linkcode LocalStorageOptions.appId}), storage is based on the
+ *   polyfill module URL, so if different executables have the same name, they will share the same
+ *   storage.
  *
  * ## Usage
  *
@@ -21,92 +24,146 @@
  *
  * @module
  */
-import assert from "node:assert";
-import { cacheDir } from "../utils.ts";
+import {
+  cacheDir,
+  choosePolyfill,
+  createStorageId,
+  CUSTOM_BACKEND_STORAGE,
+  getAppId,
+  getEncryptionKey,
+  getPolyfillStatus,
+  moveLegacyStorage,
+  type PolyfillStatus,
+  readNativeGlobal,
+  setPolyfillStatus,
+  storageDir,
+} from "../utils.ts";
 import { join as joinPath } from "@std/path";
-import { ensureDir } from "@std/fs";
+import {
+  EncryptedBackend,
+  JsonFileBackend,
+  type StorageBackend,
+} from "../backends/mod.ts";
+import {
+  DEFAULT_STORAGE_QUOTA,
+  installStorage,
+  LocalStorage,
+  StorageEvent,
+} from "./storage.ts";
 
-class LocalStorage {
-  storageData: Record<string, string> = {};
-  storagePath: string = "";
+export { StorageEvent, type StorageEventInit } from "./storage.ts";
+export type { PolyfillStatus } from "../utils.ts";
 
-  async setup() {
-    const cacheDirPath = cacheDir();
-    assert(cacheDirPath);
-    const localStoragePath = joinPath(cacheDirPath, "deno-localStorage");
-    await ensureDir(localStoragePath);
+/** Options for {@linkcode setupLocalStorage}. */
+export interface LocalStorageOptions {
+  /**
+   * ID the data is stored under, e.g. `"com.example.my-app"`. Unlike the
+   * default ID, which is derived from the polyfill module URL, it stays the
+   * same when the executable is renamed or the package is upgraded. Data
+   * found under the default ID is moved over the first time.
+   *
+   * Defaults to the `DENO_COMPILE_EXTRA_APP_ID` environment variable, so the
+   * side-effect import can use it too.
+   */
+  appId?: string;
+  /**
+   * Watch the backing file and dispatch `"storage"` events
+   * ({@linkcode StorageEvent}) on `globalThis` when another process changes
+   * localStorage, like browsers do between tabs.
+   *
+   * The watcher keeps the process alive; abort `signal` to stop it.
+   * Defaults to `false`.
+   */
+  watch?: boolean;
+  /** Stops the watcher enabled by `watch` when aborted. */
+  signal?: AbortSignal;
+  /**
+   * Maximum size of the stored keys and values in bytes (UTF-8). `setItem`
+   * throws a `QuotaExceededError` `DOMException` instead of going over it and
+   * keeps the previous value.
+   *
+   * Defaults to 10MB, like native Deno.
+   */
+  quota?: number;
+  /**
+   * Where to store the data, e.g. a `MemoryBackend` or `KvBackend` from
+   * `jsr:@sigma/deno-compile-extra/backends`. With a backend that only has
+   * asynchronous updates, changes are written in the background; await
+   * {@linkcode flushLocalStorage} before exiting the process.
+   *
+   * Defaults to JSON files in the platform data directory.
+   */
+  backend?: StorageBackend;
+  /**
+   * Encrypt the stored data with AES-GCM using this key, a `CryptoKey` or 32
+   * random bytes encoded as base64. Data that was stored unencrypted is
+   * encrypted on first use, and data that was tampered with makes the setup
+   * throw. Changes are then written in the background, await
+   * {@linkcode flushLocalStorage} before exiting the process.
+   *
+   * Defaults to the `DENO_COMPILE_EXTRA_ENCRYPTION_KEY` environment variable,
+   * or the key file named by `DENO_COMPILE_EXTRA_ENCRYPTION_KEY_FILE`.
+   */
+  encryptionKey?: CryptoKey | string;
+  /**
+   * Encrypt the stored data (see `encryptionKey`) with the key in this file.
+   * The file is created with a new random key if it doesn't exist, and must
+   * only be accessible by the user on Unix (mode `0600`).
+   */
+  encryptionKeyFile?: string;
+  /**
+   * `true` installs the polyfill even when Deno's native localStorage works,
+   * e.g. to test code using it under `deno test`. `false` keeps the native
+   * localStorage, removing a polyfill installed before.
+   *
+   * Defaults to probing the native localStorage and installing the polyfill
+   * only when it throws.
+   */
+  force?: boolean;
+}
 
-    const storageId = await this.createStorageId(import.meta.url);
-    this.storagePath = joinPath(localStoragePath, `${storageId}.json`);
+// Deno's own localStorage, captured before the polyfill replaces it
+const nativeLocalStorage = Object.getOwnPropertyDescriptor(
+  globalThis,
+  "localStorage",
+);
+// Stops the watcher of the currently installed polyfill, if any
+let stopWatching: (() => void) | undefined;
+// The currently installed polyfill, if any
+let currentStorage: LocalStorage | undefined;
 
-    try {
-      const data = await Deno.readTextFile(this.storagePath);
-      this.storageData = JSON.parse(data);
-    } catch (error) {
-      if (!(error instanceof Deno.errors.NotFound)) {
-        console.warn("Error loading localStorage data:", error);
-      }
-      this.storageData = {};
-      await Deno.writeTextFile(
-        this.storagePath,
-        JSON.stringify(this.storageData),
-      );
+// Moves data written by older versions to the default file of storageId
+async function migrateLegacyFiles(
+  localStorageDir: string,
+  storageId: string,
+  legacyStorageId: string,
+): Promise<void> {
+  const storagePath = joinPath(localStorageDir, `${storageId}.json`);
+  // Older versions stored the data in the cache dir and without the app ID,
+  // the first location that exists is moved over
+  const cacheDirPath = cacheDir();
+  const legacyDirs = cacheDirPath
+    ? [joinPath(cacheDirPath, "deno-localStorage"), localStorageDir]
+    : [localStorageDir];
+  for (const legacyDir of legacyDirs) {
+    for (const id of new Set([storageId, legacyStorageId])) {
+      await moveLegacyStorage(joinPath(legacyDir, `${id}.json`), storagePath);
     }
   }
-
-  async createStorageId(url: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(url);
-    const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("")
-      .slice(0, 16);
-  }
-
-  saveData(): void {
-    Deno.writeTextFileSync(this.storagePath, JSON.stringify(this.storageData));
-  }
-
-  getItem(key: string): string | null {
-    return this.storageData[key] ?? null;
-  }
-
-  setItem(key: string, value: string): void {
-    this.storageData[key] = value;
-    this.saveData();
-  }
-
-  removeItem(key: string): void {
-    delete this.storageData[key];
-    this.saveData();
-  }
-
-  clear(): void {
-    this.storageData = {};
-    this.saveData();
-  }
-
-  key(index: number): string | null {
-    return Object.keys(this.storageData)[index] ?? null;
-  }
-
-  get length(): number { // Keep this getter for internal use
-    return Object.keys(this.storageData).length;
-  }
 }
 
 /**
  * Sets up a localStorage polyfill for Deno standalone executables.
  *
  * This function creates a file-based localStorage implementation that persists data
- * between runs of the same compiled executable. When called in the standard Deno runtime
- * (not a compiled executable), this function has no effect.
+ * between runs of the same compiled executable. Unless `force` is set, it first probes
+ * Deno's native localStorage and has no effect when that works, like in the standard
+ * Deno runtime.
  *
- * Storage files are created in the system's cache directory with filenames based on
- * a hash of the source module URL, meaning each compiled executable gets its own
- * isolated storage.
+ * Storage files are created in the system's data directory (or the directory
+ * named by the `DENO_COMPILE_EXTRA_DIR` environment variable) with filenames based on
+ * the `appId` option, or a hash of the source module URL, meaning each compiled
+ * executable gets its own isolated storage.
  *
  * @exmaple
  *
@@ -119,34 +176,140 @@ class LocalStorage {
  * localStorage.setItem("key", "value");
  * console.log(localStorage.getItem("key")); // "value"
  * ```
+ *
+ * @example Reacting to changes made by another process
+ * ```ts
+ * import { setupLocalStorage, type StorageEvent } from "jsr:@sigma/deno-compile-extra/localStoragePolyfill";
+ *
+ * await setupLocalStorage({ watch: true });
+ *
+ * globalThis.addEventListener("storage", (event) => {
+ *   const { key, oldValue, newValue } = event as StorageEvent;
+ *   console.log(`${key} changed from ${oldValue} to ${newValue}`);
+ * });
+ * ```
  */
-export async function setupLocalStorage() {
-  if (!Deno.build.standalone) {
+export async function setupLocalStorage(options: LocalStorageOptions = {}) {
+  if (options.quota !== undefined && !(options.quota >= 0)) {
+    throw new RangeError(
+      `Invalid localStorage quota: ${options.quota} (expected a number of bytes)`,
+    );
+  }
+
+  const decision = await choosePolyfill(
+    options.force,
+    () =>
+      (readNativeGlobal("localStorage", nativeLocalStorage) as Storage).length,
+  );
+  if (!decision.active) {
+    // Put the native localStorage back in place of an earlier polyfill
+    if (currentStorage) {
+      stopWatching?.();
+      stopWatching = undefined;
+      await currentStorage.flush();
+      currentStorage = undefined;
+      if (nativeLocalStorage) {
+        Object.defineProperty(globalThis, "localStorage", nativeLocalStorage);
+      }
+    }
+    setPolyfillStatus("localStorage", decision);
     return;
   }
 
+  const appId = getAppId(options.appId);
+  const legacyStorageId = await createStorageId(import.meta.url);
+  const storageId = appId ?? legacyStorageId;
+  let backend = options.backend;
+  let dir = CUSTOM_BACKEND_STORAGE;
+  if (backend === undefined) {
+    dir = joinPath(await storageDir("data"), "deno-localStorage");
+    await migrateLegacyFiles(dir, storageId, legacyStorageId);
+    backend = new JsonFileBackend(dir);
+  }
+  const storageKey = `${storageId}.json`;
+  const encryptionKey = await getEncryptionKey(
+    options.encryptionKey,
+    options.encryptionKeyFile,
+  );
+  if (encryptionKey) {
+    const encryptedBackend = new EncryptedBackend(backend, encryptionKey);
+    await encryptedBackend.encryptExisting(storageKey);
+    backend = encryptedBackend;
+  }
+  if (options.watch && !backend.watch) {
+    throw new TypeError("The localStorage backend doesn't support watching");
+  }
+
+  // Writes of a previous setup that are still in flight would be missed
+  await currentStorage?.flush();
   const localStorageInstance = new LocalStorage();
-  await localStorageInstance.setup();
+  localStorageInstance.quota = options.quota ?? DEFAULT_STORAGE_QUOTA;
+  await localStorageInstance.setup(backend, storageKey);
+  currentStorage = localStorageInstance;
+
+  const storageShim = installStorage("localStorage", localStorageInstance);
+
+  // A previous setup's watcher would keep reporting into a replaced shim
+  stopWatching?.();
+  stopWatching = undefined;
+  if (options.watch) {
+    if (!("StorageEvent" in globalThis)) {
+      Object.defineProperty(globalThis, "StorageEvent", {
+        value: StorageEvent,
+        configurable: true,
+        writable: true,
+      });
+    }
+    const controller = new AbortController();
+    options.signal?.addEventListener("abort", () => controller.abort(), {
+      once: true,
+    });
+    if (options.signal?.aborted) controller.abort();
+    stopWatching = () => controller.abort();
+
+    localStorageInstance.watch((changes) => {
+      for (const change of changes) {
+        globalThis.dispatchEvent(
+          new StorageEvent("storage", {
+            ...change,
+            url: Deno.mainModule,
+            storageArea: storageShim,
+          }),
+        );
+      }
+    }, controller.signal).catch((error) => {
+      console.warn("Stopped watching localStorage for changes:", error);
+    });
+  }
+  setPolyfillStatus("localStorage", decision, dir);
+}
 
-  // Create a Storage-like object with 'length' as a data property
-  const storageShim = {
-    getItem: localStorageInstance.getItem.bind(localStorageInstance),
-    setItem: localStorageInstance.setItem.bind(localStorageInstance),
-    removeItem: localStorageInstance.removeItem.bind(localStorageInstance),
-    clear: localStorageInstance.clear.bind(localStorageInstance),
-    key: localStorageInstance.key.bind(localStorageInstance),
-    get length() {
-      return localStorageInstance.length;
-    },
-  };
+/**
+ * Returns whether the last {@linkcode setupLocalStorage} call installed the
+ * polyfill, and why.
+ *
+ * @example
+ * ```ts
+ * import { localStorageStatus } from "jsr:@sigma/deno-compile-extra/localStoragePolyfill";
+ *
+ * const { active, reason, error } = localStorageStatus();
+ * if (active && reason === "native-broken") {
+ *   console.log("Native localStorage failed, using the polyfill:", error);
+ * }
+ * ```
+ */
+export function localStorageStatus(): PolyfillStatus {
+  return getPolyfillStatus("localStorage");
+}
 
-  // Assign the shim to globalThis.localStorage
-  Object.defineProperty(globalThis, "localStorage", {
-    value: storageShim,
-    configurable: true,
-    writable: true,
-    enumerable: true,
-  });
+/**
+ * Resolves once every localStorage change has been stored by the backend.
+ *
+ * Only needed with backends that write in the background, like `KvBackend`
+ * or with encryption, before ending the process with `Deno.exit()`.
+ */
+export async function flushLocalStorage(): Promise<void> {
+  await currentStorage?.flush();
 }
 
 // setup the polyfill
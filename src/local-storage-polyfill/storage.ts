@@ -0,0 +1,338 @@
+/**
+ * Building blocks shared by the localStorage and sessionStorage polyfills.
+ *
+ * @module
+ */
+import { parseJson, readJsonOrRecover } from "../utils.ts";
+import { MemoryBackend, type StorageBackend } from "../backends/mod.ts";
+
+/** Default storage quota in bytes, the same 10MB limit native Deno uses. */
+export const DEFAULT_STORAGE_QUOTA = 10 * 1024 * 1024;
+
+const encoder = new TextEncoder();
+
+// Size of the data as native Deno counts it: UTF-8 bytes of keys and values
+function storageSize(data: Record<string, string>): number {
+  let size = 0;
+  for (const [key, value] of Object.entries(data)) {
+    size += encoder.encode(key).length + encoder.encode(value).length;
+  }
+  return size;
+}
+
+/** Init dictionary for {@linkcode StorageEvent}. */
+export interface StorageEventInit extends EventInit {
+  key?: string | null;
+  oldValue?: string | null;
+  newValue?: string | null;
+  url?: string;
+  storageArea?: Storage | null;
+}
+
+/**
+ * Event dispatched on `globalThis` with the type `"storage"` when another
+ * process changes localStorage. Deno doesn't ship a `StorageEvent`, so this
+ * mirrors the browser one; it is also installed as `globalThis.StorageEvent`
+ * when watching is enabled.
+ */
+export class StorageEvent extends Event {
+  /** The changed key, or `null` when the storage was cleared. */
+  readonly key: string | null;
+  /** The previous value, or `null` if the key was added. */
+  readonly oldValue: string | null;
+  /** The new value, or `null` if the key was removed. */
+  readonly newValue: string | null;
+  /** The main module of the process that received the change. */
+  readonly url: string;
+  /** The storage object that changed. */
+  readonly storageArea: Storage | null;
+
+  constructor(type: string, init: StorageEventInit = {}) {
+    super(type, init);
+    this.key = init.key ?? null;
+    this.oldValue = init.oldValue ?? null;
+    this.newValue = init.newValue ?? null;
+    this.url = init.url ?? "";
+    this.storageArea = init.storageArea ?? null;
+  }
+}
+
+/** A single difference between two versions of the stored data. */
+export interface StorageChange {
+  key: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+// Lists what changed between two versions of the stored data. A store that
+// became empty is reported like clear() in browsers: one change with a null key.
+function diffStorageData(
+  oldData: Record<string, string>,
+  newData: Record<string, string>,
+): StorageChange[] {
+  const oldKeys = Object.keys(oldData);
+  const newKeys = Object.keys(newData);
+  if (newKeys.length === 0 && oldKeys.length > 0) {
+    return [{ key: null, oldValue: null, newValue: null }];
+  }
+  const changes: StorageChange[] = [];
+  for (const key of new Set([...oldKeys, ...newKeys])) {
+    const oldValue = Object.hasOwn(oldData, key) ? oldData[key] : null;
+    const newValue = Object.hasOwn(newData, key) ? newData[key] : null;
+    if (oldValue !== newValue) changes.push({ key, oldValue, newValue });
+  }
+  return changes;
+}
+
+/**
+ * Web Storage kept as a JSON object under one key of a storage backend.
+ */
+export class LocalStorage {
+  storageData: Record<string, string> = {};
+  // Maximum size in bytes, see storageSize
+  quota = DEFAULT_STORAGE_QUOTA;
+  #backend: StorageBackend = new MemoryBackend();
+  #key = "storage.json";
+  // Background writes of backends without updateSync, in call order
+  #pendingWrites: Promise<void> = Promise.resolve();
+  #queuedWrites = 0;
+
+  async setup(backend: StorageBackend, key: string) {
+    this.#backend = backend;
+    this.#key = key;
+    // A missing or corrupt value (kept as a .corrupt backup) starts out empty
+    this.storageData =
+      await readJsonOrRecover<Record<string, string>>(backend, key) ?? {};
+  }
+
+  // Re-reads the stored data and returns what changed since the last read or
+  // write
+  async reloadData(): Promise<StorageChange[]> {
+    const data = parseJson<Record<string, string>>(
+      await this.#backend.get(this.#key),
+    ) ?? {};
+    // Don't drop changes that are still being written
+    if (this.#queuedWrites > 0) return [];
+    const changes = diffStorageData(this.storageData, data);
+    this.storageData = data;
+    return changes;
+  }
+
+  // Calls onChange whenever another process changes the stored data, until
+  // signal is aborted. Our own writes already updated storageData, so they
+  // produce no changes.
+  async watch(
+    onChange: (changes: StorageChange[]) => void,
+    signal: AbortSignal,
+  ): Promise<void> {
+    if (!this.#backend.watch) {
+      throw new TypeError("The storage backend doesn't support watching");
+    }
+    for await (const _ of this.#backend.watch(this.#key, signal)) {
+      const changes = await this.reloadData();
+      if (changes.length > 0) onChange(changes);
+    }
+  }
+
+  // Applies a change on top of the latest stored data while holding the
+  // backend's lock, so keys written by other processes in the meantime are
+  // kept. Backends with synchronous updates are written before this returns,
+  // the others in the background (see flush).
+  updateData(change: (data: Record<string, string>) => void): void {
+    const apply = (bytes: Uint8Array | undefined) => {
+      const data = parseJson<Record<string, string>>(bytes) ?? {};
+      change(data);
+      return data;
+    };
+    if (this.#backend.updateSync) {
+      this.#backend.updateSync(this.#key, (bytes) => {
+        const data = apply(bytes);
+        this.storageData = data;
+        return encoder.encode(JSON.stringify(data));
+      });
+      return;
+    }
+
+    // Throws right away, e.g. when over quota, without queueing anything
+    const data = { ...this.storageData };
+    change(data);
+    this.storageData = data;
+    this.#queuedWrites++;
+    this.#pendingWrites = this.#pendingWrites.then(async () => {
+      let latest: Record<string, string> | undefined;
+      try {
+        await this.#backend.update(this.#key, (bytes) => {
+          latest = apply(bytes);
+          return encoder.encode(JSON.stringify(latest));
+        });
+      } catch (error) {
+        console.error("Failed to persist storage:", error);
+      }
+      // Once caught up, pick up what other processes wrote meanwhile
+      if (--this.#queuedWrites === 0 && latest) this.storageData = latest;
+    });
+  }
+
+  // Resolves once every change is stored by the backend
+  async flush(): Promise<void> {
+    await this.#pendingWrites;
+    await this.#backend.flush();
+  }
+
+  getItem(key: string): string | null {
+    return this.storageData[key] ?? null;
+  }
+
+  // Throws before touching the data, so a failed setItem keeps the old value
+  setItem(key: string, value: string): void {
+    this.updateData((data) => {
+      const newData = { ...data, [key]: value };
+      if (storageSize(newData) > this.quota) {
+        throw new DOMException(
+          "Exceeded maximum storage size",
+          "QuotaExceededError",
+        );
+      }
+      data[key] = value;
+    });
+  }
+
+  removeItem(key: string): void {
+    this.updateData((data) => {
+      delete data[key];
+    });
+  }
+
+  clear(): void {
+    this.updateData((data) => {
+      for (const key of Object.keys(data)) delete data[key];
+    });
+  }
+
+  key(index: number): string | null {
+    return Object.keys(this.storageData)[index] ?? null;
+  }
+
+  get length(): number { // Keep this getter for internal use
+    return Object.keys(this.storageData).length;
+  }
+}
+
+/**
+ * Creates a Storage object backed by `instance` and assigns it to
+ * `globalThis[name]`.
+ *
+ * Like native Web Storage, stored keys are exposed as named properties:
+ * `storage.foo = "bar"`, `storage.foo`, `delete storage.foo`, `"foo" in storage`
+ * and `Object.keys(storage)` all go through `instance`, values are coerced to
+ * strings, and the object passes `instanceof Storage`.
+ */
+export function installStorage(
+  name: "localStorage" | "sessionStorage",
+  instance: LocalStorage,
+): Storage {
+  // The methods live on a prototype, so that like native Storage they aren't
+  // own properties and take precedence over stored keys with the same name.
+  // Native Storage.prototype methods can't be called on this object, hence
+  // the per instance layer in between.
+  const methods = Object.create(
+    globalThis.Storage?.prototype ?? Object.prototype,
+    {
+      getItem: {
+        value: (key: string) => instance.getItem(String(key)),
+        writable: true,
+        configurable: true,
+      },
+      setItem: {
+        value: (key: string, value: string) =>
+          instance.setItem(String(key), String(value)),
+        writable: true,
+        configurable: true,
+      },
+      removeItem: {
+        value: (key: string) => instance.removeItem(String(key)),
+        writable: true,
+        configurable: true,
+      },
+      clear: {
+        value: () => instance.clear(),
+        writable: true,
+        configurable: true,
+      },
+      key: {
+        value: (index: number) => instance.key(Number(index)),
+        writable: true,
+        configurable: true,
+      },
+      length: {
+        get: () => instance.length,
+        configurable: true,
+      },
+    },
+  );
+  const target = Object.create(methods);
+
+  // A stored key is visible as a property unless the prototype chain has a
+  // property with that name
+  const isNamedProperty = (prop: string | symbol): prop is string =>
+    typeof prop === "string" && !(prop in target) &&
+    instance.getItem(prop) !== null;
+
+  const storageShim = new Proxy(target, {
+    get(target, prop, receiver) {
+      if (isNamedProperty(prop)) return instance.getItem(prop);
+      return Reflect.get(target, prop, receiver);
+    },
+    // Assigning any string property stores it, even over method names
+    set(target, prop, value, receiver) {
+      if (typeof prop === "symbol") {
+        return Reflect.set(target, prop, value, receiver);
+      }
+      instance.setItem(prop, String(value));
+      return true;
+    },
+    has(target, prop) {
+      return isNamedProperty(prop) || Reflect.has(target, prop);
+    },
+    deleteProperty(target, prop) {
+      if (isNamedProperty(prop)) {
+        instance.removeItem(prop);
+        return true;
+      }
+      return Reflect.deleteProperty(target, prop);
+    },
+    ownKeys(target) {
+      return [
+        ...Object.keys(instance.storageData),
+        ...Reflect.ownKeys(target),
+      ];
+    },
+    getOwnPropertyDescriptor(target, prop) {
+      if (isNamedProperty(prop)) {
+        return {
+          value: instance.getItem(prop),
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        };
+      }
+      return Reflect.getOwnPropertyDescriptor(target, prop);
+    },
+    defineProperty(target, prop, descriptor) {
+      if (typeof prop === "symbol") {
+        return Reflect.defineProperty(target, prop, descriptor);
+      }
+      if (!("value" in descriptor)) return false;
+      instance.setItem(prop, String(descriptor.value));
+      return true;
+    },
+  }) as Storage;
+
+  Object.defineProperty(globalThis, name, {
+    value: storageShim,
+    configurable: true,
+    writable: true,
+    enumerable: true,
+  });
+  return storageShim;
+}
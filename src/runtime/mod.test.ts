@@ -0,0 +1,105 @@
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { exists } from "@std/fs";
+import { formatRuntimeInfo, type RuntimeInfo, runtimeInfo } from "./mod.ts";
+
+Deno.test("runtimeInfo reports the runtime, polyfills and storage dirs", async () => {
+  const { setupCachesPolyfill } = await import("../caches-polyfill/mod.ts");
+  const { setupLocalStorage } = await import(
+    "../local-storage-polyfill/mod.ts"
+  );
+  const { MemoryBackend } = await import("../backends/mod.ts");
+
+  const dir = await Deno.makeTempDir();
+  Deno.env.set("DENO_COMPILE_EXTRA_DIR", dir);
+  try {
+    await setupCachesPolyfill({ appId: "com.example.runtime", force: true });
+    await setupLocalStorage({ backend: new MemoryBackend(), force: true });
+
+    const info = await runtimeInfo();
+    assertEquals(info.standalone, false);
+    assertEquals(info.execPath, Deno.execPath());
+    assertEquals(info.mainModule, Deno.mainModule);
+    assertEquals(info.moduleRoot, null);
+    assertEquals(info.version, { ...Deno.version });
+    assertEquals(info.polyfills, {
+      localStorage: { active: true, reason: "forced" },
+      sessionStorage: { active: false, reason: "not-set-up" },
+      caches: { active: true, reason: "forced" },
+    });
+    // The dirs the setups resolved, including the app ID of the caches
+    assertEquals(info.storageDirs, {
+      localStorage: "custom backend",
+      sessionStorage: null,
+      caches: join(dir, "deno-cache-api", "com.example.runtime"),
+    });
+
+    // Reading them doesn't create anything
+    Deno.env.set("DENO_COMPILE_EXTRA_DIR", join(dir, "unused"));
+    await runtimeInfo();
+    assertEquals(await exists(join(dir, "unused")), false);
+
+    await setupCachesPolyfill({ force: false });
+    assertEquals((await runtimeInfo()).storageDirs.caches, null);
+  } finally {
+    Deno.env.delete("DENO_COMPILE_EXTRA_DIR");
+    await setupCachesPolyfill({ force: false });
+    await setupLocalStorage({ force: false });
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("formatRuntimeInfo prints one line per item", () => {
+  const info: RuntimeInfo = {
+    standalone: true,
+    execPath: "/usr/local/bin/my-cli",
+    mainModule: "file:///tmp/deno-compile-my-cli/src/main.ts",
+    moduleRoot: "file:///tmp/deno-compile-my-cli/",
+    version: { deno: "2.1.4", v8: "13.0.245.12-rusty", typescript: "5.6.2" },
+    target: "x86_64-unknown-linux-gnu",
+    polyfills: {
+      localStorage: {
+        active: true,
+        reason: "native-broken",
+        error: new TypeError("LocalStorage is not supported in this context."),
+      },
+      sessionStorage: { active: false, reason: "native-works" },
+      caches: { active: false, reason: "not-set-up" },
+    },
+    storageDirs: {
+      localStorage: "/home/me/.local/share/deno-localStorage",
+      sessionStorage: null,
+      caches: "/home/me/.cache/deno-cache-api/com.example.my-cli",
+    },
+  };
+
+  assertEquals(
+    formatRuntimeInfo(info, { version: "1.2.3" }).split("\n"),
+    [
+      "my-cli 1.2.3",
+      "deno 2.1.4 (v8 13.0.245.12-rusty, typescript 5.6.2)",
+      "target: x86_64-unknown-linux-gnu",
+      "standalone: yes",
+      "executable: /usr/local/bin/my-cli",
+      "main module: file:///tmp/deno-compile-my-cli/src/main.ts",
+      "module root: file:///tmp/deno-compile-my-cli/",
+      "localStorage: polyfill (native-broken: TypeError: LocalStorage is not supported in this context.)",
+      "sessionStorage: native (native-works)",
+      "caches: not set up",
+      "localStorage dir: /home/me/.local/share/deno-localStorage",
+      "sessionStorage dir: none",
+      "caches dir: /home/me/.cache/deno-cache-api/com.example.my-cli",
+    ],
+  );
+  assertEquals(
+    formatRuntimeInfo({ ...info, execPath: "C:\\Apps\\my-cli.exe" }, {
+      name: "renamed",
+    }).split("\n")[0],
+    "renamed",
+  );
+  assertEquals(
+    formatRuntimeInfo({ ...info, execPath: "C:\\Apps\\my-cli.exe" })
+      .split("\n")[0],
+    "my-cli",
+  );
+});
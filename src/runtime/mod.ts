@@ -0,0 +1,178 @@
+/**
+ * Runtime information for Deno standalone executables
+ *
+ * This module tells whether the code runs as a compiled executable, where that executable and
+ * its embedded modules are, which Deno version it was built with, which polyfills replaced a
+ * native API and where they store their data. {@linkcode printRuntimeInfo} prints all of it,
+ * e.g. for a `--version` flag whose output users can paste into bug reports.
+ *
+ * Reading the information doesn't set up any polyfill or touch the file system: polyfills that
+ * weren't imported are reported as `"not-set-up"`, and storage directories are those the setups
+ * resolved.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * import "jsr:@sigma/deno-compile-extra/localStoragePolyfill";
+ * import { printRuntimeInfo } from "jsr:@sigma/deno-compile-extra/runtime";
+ *
+ * if (Deno.args.includes("--version")) {
+ *   await printRuntimeInfo({ name: "my-cli", version: "1.2.3" });
+ *   Deno.exit(0);
+ * }
+ * ```
+ *
+ * @module
+ */
+import {
+  getPolyfillStatus,
+  getPolyfillStorageDir,
+  type PolyfillName,
+  type PolyfillStatus,
+} from "../utils.ts";
+
+export type { PolyfillName, PolyfillStatus } from "../utils.ts";
+
+/** What {@linkcode runtimeInfo} returns. */
+export interface RuntimeInfo {
+  /** Whether the code runs as an executable made by `deno compile`. */
+  standalone: boolean;
+  /**
+   * Path of the running executable: the compiled executable, or the `deno`
+   * binary otherwise.
+   */
+  execPath: string;
+  /** URL of the entry point module. */
+  mainModule: string;
+  /**
+   * URL of the directory the modules embedded in a compiled executable are
+   * served from, or `null` when not running as one.
+   */
+  moduleRoot: string | null;
+  /** Versions of Deno and its components the code runs on. */
+  version: { deno: string; v8: string; typescript: string };
+  /** Target triple the executable was built for, e.g. `x86_64-unknown-linux-gnu`. */
+  target: string;
+  /** Whether each polyfill replaced the native API, and why. */
+  polyfills: Record<PolyfillName, PolyfillStatus>;
+  /**
+   * Directories the polyfills store their files in, as resolved by their last
+   * setup, e.g. with the app ID or module hash subdirectory of the caches.
+   * `"custom backend"` when a `backend` option replaced the files, and `null`
+   * when the polyfill isn't active or keeps its data in memory.
+   */
+  storageDirs: Record<PolyfillName, string | null>;
+}
+
+/** Options for {@linkcode printRuntimeInfo}. */
+export interface PrintRuntimeInfoOptions {
+  /** Name of the app, printed on the first line. Defaults to the executable name. */
+  name?: string;
+  /** Version of the app, printed after its name. */
+  version?: string;
+}
+
+// Compiled executables serve their modules from a "deno-compile-<name>" dir
+const EMBEDDED_ROOT = /^(.*?[/\\]deno-compile-[^/\\]+[/\\])/;
+
+function moduleRoot(): string | null {
+  if (!Deno.build.standalone) return null;
+  return Deno.mainModule.match(EMBEDDED_ROOT)?.[1] ??
+    new URL(".", Deno.mainModule).href;
+}
+
+/**
+ * Returns information about the running executable, the polyfills and their
+ * storage, e.g. for diagnostics.
+ *
+ * @example
+ * ```ts
+ * import { runtimeInfo } from "jsr:@sigma/deno-compile-extra/runtime";
+ *
+ * const info = await runtimeInfo();
+ * if (info.standalone) {
+ *   console.log(`Running ${info.execPath} on Deno ${info.version.deno}`);
+ * }
+ * ```
+ */
+export function runtimeInfo(): Promise<RuntimeInfo> {
+  return Promise.resolve({
+    standalone: Deno.build.standalone,
+    execPath: Deno.execPath(),
+    mainModule: Deno.mainModule,
+    moduleRoot: moduleRoot(),
+    version: { ...Deno.version },
+    target: Deno.build.target,
+    polyfills: {
+      localStorage: getPolyfillStatus("localStorage"),
+      sessionStorage: getPolyfillStatus("sessionStorage"),
+      caches: getPolyfillStatus("caches"),
+    },
+    storageDirs: {
+      localStorage: getPolyfillStorageDir("localStorage"),
+      sessionStorage: getPolyfillStorageDir("sessionStorage"),
+      caches: getPolyfillStorageDir("caches"),
+    },
+  });
+}
+
+function formatStatus(status: PolyfillStatus): string {
+  if (status.reason === "not-set-up") return "not set up";
+  const side = status.active ? "polyfill" : "native";
+  if (status.error === undefined) return `${side} (${status.reason})`;
+  const error = status.error instanceof Error
+    ? `${status.error.name}: ${status.error.message}`
+    : String(status.error);
+  return `${side} (${status.reason}: ${error})`;
+}
+
+/**
+ * Formats runtime information as the lines {@linkcode printRuntimeInfo}
+ * prints.
+ */
+export function formatRuntimeInfo(
+  info: RuntimeInfo,
+  options: PrintRuntimeInfoOptions = {},
+): string {
+  const name = options.name ??
+    info.execPath.split(/[/\\]/).pop()!.replace(/\.exe$/i, "");
+  const lines = [
+    options.version ? `${name} ${options.version}` : name,
+    `deno ${info.version.deno} (v8 ${info.version.v8}, typescript ${info.version.typescript})`,
+    `target: ${info.target}`,
+    `standalone: ${info.standalone ? "yes" : "no"}`,
+    `executable: ${info.execPath}`,
+    `main module: ${info.mainModule}`,
+  ];
+  if (info.moduleRoot !== null) lines.push(`module root: ${info.moduleRoot}`);
+  for (const [polyfill, status] of Object.entries(info.polyfills)) {
+    lines.push(`${polyfill}: ${formatStatus(status)}`);
+  }
+  for (const [polyfill, dir] of Object.entries(info.storageDirs)) {
+    lines.push(`${polyfill} dir: ${dir ?? "none"}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Prints the {@linkcode runtimeInfo} to stdout, one `key: value` per line
+ * after the app name and version, for `--version` flags and bug reports.
+ *
+ * @example
+ * ```ts
+ * import { printRuntimeInfo } from "jsr:@sigma/deno-compile-extra/runtime";
+ *
+ * await printRuntimeInfo({ name: "my-cli", version: "1.2.3" });
+ * // my-cli 1.2.3
+ * // deno 2.1.4 (v8 13.0.245.12-rusty, typescript 5.6.2)
+ * // target: x86_64-unknown-linux-gnu
+ * // standalone: yes
+ * // ...
+ * // localStorage: polyfill (native-broken: TypeError: ...)
+ * ```
+ */
+export async function printRuntimeInfo(
+  options: PrintRuntimeInfoOptions = {},
+): Promise<void> {
+  console.log(formatRuntimeInfo(await runtimeInfo(), options));
+}
@@ -0,0 +1,153 @@
+import { assertEquals } from "@std/assert";
+import * as path from "@std/path";
+import { copy } from "@std/fs";
+
+// Helper function to compile a Deno script and return the path to the executable
+async function compileDenoScript(scriptPath: string): Promise<string> {
+  const tempDir = await Deno.makeTempDir();
+  const exePath = path.join(tempDir, "compiled_test_app");
+
+  const compileProcess = new Deno.Command(Deno.execPath(), {
+    args: ["compile", "-A", "-o", exePath, scriptPath],
+    stdin: "null",
+    stdout: "null",
+    stderr: "inherit", // Show compilation errors
+  });
+
+  const { success } = await compileProcess.spawn().status;
+  if (!success) {
+    throw new Error(`Compilation failed for ${scriptPath}`);
+  }
+  return exePath;
+}
+
+// Helper function to write a test script next to a copy of the polyfill,
+// returning the temp dir and the script path. The whole src dir is copied,
+// so the script can import "./mod.ts" and "../utils.ts".
+async function createTestApp(
+  testScriptContent: string,
+): Promise<{ tempDir: string; testScriptPath: string }> {
+  const tempDir = await Deno.makeTempDir();
+  // https://github.com/denoland/deno/issues/28353
+  await copy(
+    path.fromFileUrl(new URL("../", import.meta.url)),
+    path.join(tempDir, "src"),
+  );
+  const testScriptPath = path.join(
+    tempDir,
+    "src",
+    "session-storage-polyfill",
+    "test_app.ts",
+  );
+  await Deno.writeTextFile(testScriptPath, testScriptContent);
+  return { tempDir, testScriptPath };
+}
+
+// Helper function to run a compiled test app and assert that it succeeded
+async function runTestApp(
+  executablePath: string,
+  tempDir: string,
+  args: string[] = [],
+): Promise<void> {
+  const runProcess = new Deno.Command(executablePath, {
+    cwd: tempDir,
+    args,
+    stdin: "null",
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+  const status = await runProcess.status;
+  const output = await runProcess.output();
+
+  const decoder = new TextDecoder();
+  const outStr = decoder.decode(output.stdout);
+  const errStr = decoder.decode(output.stderr);
+
+  assertEquals(
+    status.success,
+    true,
+    `Test script failed:\n ${errStr}\n${outStr}`,
+  );
+}
+
+Deno.test("sessionStorage polyfill in compiled executable", async () => {
+  const testScriptContent = `
+    import { setupSessionStorage } from "./mod.ts";
+
+    const [mode, step] = Deno.args;
+    if (mode === "shell") {
+      await setupSessionStorage({ perShellSession: true });
+    }
+
+    if (step === "set") {
+      if (sessionStorage.length !== 0) {
+        throw new Error("expected an empty sessionStorage, got " + sessionStorage.length);
+      }
+      sessionStorage.setItem("testKey", "testValue");
+      if (sessionStorage.getItem("testKey") !== "testValue") {
+        throw new Error("wrong value");
+      }
+    } else if (step === "check") {
+      const expected = mode === "shell" ? "testValue" : null;
+      if (sessionStorage.getItem("testKey") !== expected) {
+        throw new Error("expected " + expected + ", got " + sessionStorage.getItem("testKey"));
+      }
+      sessionStorage.clear();
+    }
+  `;
+
+  const { tempDir, testScriptPath } = await createTestApp(testScriptContent);
+  const executablePath = await compileDenoScript(testScriptPath);
+
+  // By default the data is gone once the process exits
+  await runTestApp(executablePath, tempDir, ["memory", "set"]);
+  await runTestApp(executablePath, tempDir, ["memory", "check"]);
+
+  // Per shell session, runs from the same parent (this test) share the data
+  await runTestApp(executablePath, tempDir, ["shell", "set"]);
+  await runTestApp(executablePath, tempDir, ["shell", "check"]);
+  // The check run cleared it again
+  await runTestApp(executablePath, tempDir, ["shell", "set"]);
+  await runTestApp(executablePath, tempDir, ["shell", "check"]);
+
+  await Deno.remove(tempDir, { recursive: true });
+});
+
+Deno.test("sessionStorage polyfill can be forced onto a memory backend", async () => {
+  const { setupSessionStorage } = await import("./mod.ts");
+  const { MemoryBackend } = await import("../backends/mod.ts");
+  const backend = new MemoryBackend();
+
+  await setupSessionStorage({ backend, appId: "memory-test", force: true });
+  sessionStorage.setItem("key", "value");
+  assertEquals(sessionStorage.getItem("key"), "value");
+  assertEquals(await backend.list(""), ["memory-test.json"]);
+  sessionStorage.clear();
+});
+
+Deno.test("sessionStorage polyfill is only installed when needed", async () => {
+  const { sessionStorageStatus, setupSessionStorage } = await import(
+    "./mod.ts"
+  );
+  const { MemoryBackend } = await import("../backends/mod.ts");
+
+  // Native sessionStorage works under deno test
+  await setupSessionStorage();
+  assertEquals(sessionStorageStatus(), {
+    active: false,
+    reason: "native-works",
+  });
+  // ...and removes the polyfill the tests before installed
+  const native = Object.getOwnPropertyDescriptor(globalThis, "sessionStorage");
+
+  // Native sessionStorage can't store into a backend
+  await setupSessionStorage({ backend: new MemoryBackend() });
+  assertEquals(sessionStorageStatus(), { active: true, reason: "forced" });
+
+  await setupSessionStorage({ force: false });
+  assertEquals(sessionStorageStatus(), { active: false, reason: "forced" });
+  assertEquals(
+    Object.getOwnPropertyDescriptor(globalThis, "sessionStorage"),
+    native,
+  );
+});
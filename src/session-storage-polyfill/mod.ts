@@ -0,0 +1,214 @@
+/**
+ * SessionStorage polyfill for Deno standalone executables
+ *
+ * This module provides a sessionStorage implementation for Deno standalone executables,
+ * built on the same storage class as the localStorage polyfill. By default the data lives
+ * in memory for the lifetime of the process. Optionally it can be kept for the lifetime of
+ * the parent process instead (usually the shell the executable was started from), which lets
+ * CLI tools keep state across runs within one terminal session.
+ *
+ * Deno's native sessionStorage is kept when it works and no option needs the polyfill, see
+ * {@linkcode sessionStorageStatus}.
+ *
+ * ## Limitations
+ *
+ * - Per shell session storage is keyed by the parent process ID. Process IDs get reused, so
+ *   files that weren't touched for a week are removed, and a new shell that happens to get the
+ *   PID of an old one can see its data until then.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * import "jsr:@sigma/deno-compile-extra/sessionStoragePolyfill";
+ *
+ * // Now you can use sessionStorage as usual
+ * sessionStorage.setItem("key", "value");
+ * console.log(sessionStorage.getItem("key")); // "value"
+ * ```
+ *
+ * @module
+ */
+import {
+  choosePolyfill,
+  createStorageId,
+  CUSTOM_BACKEND_STORAGE,
+  getAppId,
+  getEncryptionKey,
+  getPolyfillStatus,
+  type PolyfillStatus,
+  readNativeGlobal,
+  setPolyfillStatus,
+  storageDir,
+} from "../utils.ts";
+import { join as joinPath } from "@std/path";
+import { exists } from "@std/fs";
+import {
+  EncryptedBackend,
+  JsonFileBackend,
+  MemoryBackend,
+  type StorageBackend,
+} from "../backends/mod.ts";
+import {
+  installStorage,
+  LocalStorage,
+} from "../local-storage-polyfill/storage.ts";
+
+export type { PolyfillStatus } from "../utils.ts";
+
+// Per shell session files not written for this long are considered abandoned
+const SESSION_MAX_IDLE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Deno's own sessionStorage, captured before the polyfill replaces it
+const nativeSessionStorage = Object.getOwnPropertyDescriptor(
+  globalThis,
+  "sessionStorage",
+);
+
+/** Options for {@linkcode setupSessionStorage}. */
+export interface SessionStorageOptions {
+  /**
+   * ID the per shell session data is stored under, like the `appId` option of
+   * the localStorage polyfill.
+   *
+   * Defaults to the `DENO_COMPILE_EXTRA_APP_ID` environment variable.
+   */
+  appId?: string;
+  /**
+   * Keep the data for the lifetime of the parent process, usually the shell
+   * the executable was started from, instead of only this process. Every run
+   * from the same terminal session then sees the same sessionStorage.
+   *
+   * Defaults to `false`.
+   */
+  perShellSession?: boolean;
+  /**
+   * Where to store the data, e.g. a backend from
+   * `jsr:@sigma/deno-compile-extra/backends`.
+   *
+   * Defaults to memory, or with `perShellSession` to JSON files in the
+   * platform cache directory.
+   */
+  backend?: StorageBackend;
+  /**
+   * Encrypt the stored data with this key, like the `encryptionKey` option of
+   * the localStorage polyfill. Data kept in memory isn't encrypted.
+   */
+  encryptionKey?: CryptoKey | string;
+  /**
+   * Encrypt the stored data with the key in this file, like the
+   * `encryptionKeyFile` option of the localStorage polyfill.
+   */
+  encryptionKeyFile?: string;
+  /**
+   * `true` installs the polyfill even when Deno's native sessionStorage works.
+   * `false` keeps the native sessionStorage, removing a polyfill installed
+   * before, and ignores `perShellSession` and `backend`.
+   *
+   * Defaults to installing the polyfill when `perShellSession` or `backend` is
+   * set, which native sessionStorage can't do, or when probing the native
+   * sessionStorage throws.
+   */
+  force?: boolean;
+}
+
+// Removes this executable's session files that haven't been written for a while
+async function removeAbandonedSessions(
+  sessionDir: string,
+  storageId: string,
+): Promise<void> {
+  if (!(await exists(sessionDir, { isDirectory: true }))) return;
+  const now = Date.now();
+  for await (const entry of Deno.readDir(sessionDir)) {
+    if (!entry.isFile || !entry.name.startsWith(`${storageId}-`)) continue;
+    const filePath = joinPath(sessionDir, entry.name);
+    const { mtime } = await Deno.stat(filePath);
+    if (mtime && now - mtime.getTime() > SESSION_MAX_IDLE_MS) {
+      await Deno.remove(filePath).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Sets up a sessionStorage polyfill for Deno standalone executables.
+ *
+ * By default the data is kept in memory and lost when the process exits, like
+ * a browser tab's sessionStorage. With `perShellSession` it is stored in the
+ * system's cache directory, in a file keyed by the `appId` option (or a hash of
+ * the source module URL) and the parent process ID. Without those options and `force`, it has
+ * no effect when Deno's native sessionStorage works.
+ *
+ * @example
+ * ```ts
+ * import { setupSessionStorage } from "jsr:@sigma/deno-compile-extra/sessionStoragePolyfill";
+ *
+ * // Keep state across runs from the same terminal
+ * await setupSessionStorage({ perShellSession: true });
+ *
+ * const runs = Number(sessionStorage.getItem("runs") ?? "0") + 1;
+ * sessionStorage.setItem("runs", String(runs));
+ * console.log(`Run ${runs} in this shell`);
+ * ```
+ */
+export async function setupSessionStorage(
+  options: SessionStorageOptions = {},
+) {
+  const decision = await choosePolyfill(
+    options.force ??
+      (options.perShellSession || options.backend ? true : undefined),
+    () =>
+      (readNativeGlobal("sessionStorage", nativeSessionStorage) as Storage)
+        .length,
+  );
+  if (!decision.active) {
+    if (getPolyfillStatus("sessionStorage").active && nativeSessionStorage) {
+      Object.defineProperty(globalThis, "sessionStorage", nativeSessionStorage);
+    }
+    setPolyfillStatus("sessionStorage", decision);
+    return;
+  }
+
+  const storageId = getAppId(options.appId) ??
+    await createStorageId(import.meta.url);
+  let backend = options.backend;
+  // Without a backend the data is kept in memory
+  let dir = backend ? CUSTOM_BACKEND_STORAGE : null;
+  if (backend === undefined && options.perShellSession) {
+    dir = joinPath(await storageDir("cache"), "deno-sessionStorage");
+    await removeAbandonedSessions(dir, storageId);
+    backend = new JsonFileBackend(dir);
+  }
+  const storageKey = options.perShellSession
+    ? `${storageId}-${Deno.ppid}.json`
+    : `${storageId}.json`;
+  // Data kept in memory isn't encrypted
+  if (backend) {
+    const encryptionKey = await getEncryptionKey(
+      options.encryptionKey,
+      options.encryptionKeyFile,
+    );
+    if (encryptionKey) {
+      const encryptedBackend = new EncryptedBackend(backend, encryptionKey);
+      await encryptedBackend.encryptExisting(storageKey);
+      backend = encryptedBackend;
+    }
+  }
+
+  const sessionStorageInstance = new LocalStorage();
+  await sessionStorageInstance.setup(
+    backend ?? new MemoryBackend(),
+    storageKey,
+  );
+  installStorage("sessionStorage", sessionStorageInstance);
+  setPolyfillStatus("sessionStorage", decision, dir);
+}
+
+/**
+ * Returns whether the last {@linkcode setupSessionStorage} call installed the
+ * polyfill, and why.
+ */
+export function sessionStorageStatus(): PolyfillStatus {
+  return getPolyfillStatus("sessionStorage");
+}
+
+// setup the polyfill
+await setupSessionStorage();
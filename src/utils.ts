@@ -1,3 +1,8 @@
+import { basename, dirname, join } from "@std/path";
+import { copy, ensureDir, exists } from "@std/fs";
+import { tmpdir } from "node:os";
+import type { StorageBackend } from "./backends/mod.ts";
+
 // https://github.com/justjavac/deno_dirs/blob/main/cache_dir/mod.ts
 /**
  * Returns the cache directory of the current platform.
@@ -34,42 +39,574 @@ export function cacheDir(): string | null {
 }
 
 /**
- * Determines whether the current Deno process is running as a standalone executable.
+ * Returns the directory for persistent user data of the current platform
+ * (`$XDG_DATA_HOME`, `~/.local/share`, `~/Library/Application Support` or
+ * `%APPDATA%`).
+ */
+export function dataDir(): string | null {
+  switch (Deno.build.os) {
+    case "linux": {
+      const xdg = Deno.env.get("XDG_DATA_HOME");
+      if (xdg) return xdg;
+
+      const home = Deno.env.get("HOME");
+      if (home) return `${home}/.local/share`;
+      break;
+    }
+
+    case "darwin": {
+      const home = Deno.env.get("HOME");
+      if (home) return `${home}/Library/Application Support`;
+      break;
+    }
+
+    case "windows": {
+      const appData = Deno.env.get("APPDATA");
+      if (appData) return appData;
+      break;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns the configuration directory of the current platform
+ * (`$XDG_CONFIG_HOME`, `~/.config`, `~/Library/Application Support` or
+ * `%APPDATA%`).
+ */
+export function configDir(): string | null {
+  switch (Deno.build.os) {
+    case "linux": {
+      const xdg = Deno.env.get("XDG_CONFIG_HOME");
+      if (xdg) return xdg;
+
+      const home = Deno.env.get("HOME");
+      if (home) return `${home}/.config`;
+      break;
+    }
+
+    case "darwin": {
+      const home = Deno.env.get("HOME");
+      if (home) return `${home}/Library/Application Support`;
+      break;
+    }
+
+    case "windows": {
+      const appData = Deno.env.get("APPDATA");
+      if (appData) return appData;
+      break;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Environment variable that overrides the directory all polyfills store their
+ * data in.
+ */
+export const STORAGE_DIR_ENV_VAR = "DENO_COMPILE_EXTRA_DIR";
+
+// Whether files can be created in dir, creating it if needed
+async function isWritableDir(dir: string): Promise<boolean> {
+  try {
+    await ensureDir(dir);
+    await Deno.remove(await Deno.makeTempFile({ dir }));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the base directory the polyfills store data of the given kind in.
+ *
+ * This is the {@linkcode STORAGE_DIR_ENV_VAR} environment variable if set,
+ * otherwise {@linkcode dataDir} for persistent data or {@linkcode cacheDir}
+ * for data that can be recreated. When those can't be determined (e.g. HOME
+ * is unset in systemd services and containers), it falls back to a
+ * `.deno-compile-extra` directory next to the executable, or to
+ * `deno-compile-extra` in the temp directory if that one isn't writable.
+ */
+export async function storageDir(kind: "data" | "cache"): Promise<string> {
+  const override = Deno.env.get(STORAGE_DIR_ENV_VAR);
+  if (override) return override;
+
+  const platformDir = kind === "data" ? dataDir() : cacheDir();
+  if (platformDir) return platformDir;
+
+  const nextToExe = join(dirname(Deno.execPath()), ".deno-compile-extra");
+  if (await isWritableDir(nextToExe)) return nextToExe;
+  return join(tmpdir(), "deno-compile-extra");
+}
+
+/**
+ * Derives a short, filename-safe storage ID by hashing `url`.
+ */
+export async function createStorageId(url: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const data = encoder.encode(url);
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, 16);
+}
+
+/**
+ * Environment variable read by the polyfills when no `appId` option is passed,
+ * so apps that only use the side-effect imports can choose their ID too.
+ */
+export const APP_ID_ENV_VAR = "DENO_COMPILE_EXTRA_APP_ID";
+
+/**
+ * Returns the app ID to store data under: `appId` if given, otherwise the
+ * {@linkcode APP_ID_ENV_VAR} environment variable, otherwise `undefined`.
+ *
+ * The ID is used as a file name, so it must start with a letter or digit and
+ * only contain letters, digits, `.`, `_` and `-` (e.g. `com.example.my-app`).
+ */
+export function getAppId(appId?: string): string | undefined {
+  appId ??= Deno.env.get(APP_ID_ENV_VAR) || undefined;
+  if (appId !== undefined && !/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(appId)) {
+    throw new TypeError(
+      `Invalid app ID "${appId}": use letters, digits, ".", "_" and "-"`,
+    );
+  }
+  return appId;
+}
+
+/**
+ * Environment variable holding the base64 encoded key the polyfills encrypt
+ * their data with when no key option is passed.
+ */
+export const ENCRYPTION_KEY_ENV_VAR = "DENO_COMPILE_EXTRA_ENCRYPTION_KEY";
+
+/**
+ * Environment variable naming a file holding the encryption key, like the
+ * `encryptionKeyFile` option of the polyfills.
+ */
+export const ENCRYPTION_KEY_FILE_ENV_VAR =
+  "DENO_COMPILE_EXTRA_ENCRYPTION_KEY_FILE";
+
+// Decodes a base64 encoded 256-bit key
+async function importEncryptionKey(base64Key: string): Promise<CryptoKey> {
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = Uint8Array.from(atob(base64Key.trim()), (c) => c.charCodeAt(0));
+  } catch {
+    bytes = new Uint8Array();
+  }
+  if (bytes.length !== 32) {
+    throw new TypeError(
+      "Invalid encryption key: expected 32 random bytes encoded as base64",
+    );
+  }
+  return await crypto.subtle.importKey("raw", bytes, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+// Reads the key in keyFile, creating the file with a new random key if it
+// doesn't exist yet
+async function readEncryptionKeyFile(keyFile: string): Promise<string> {
+  try {
+    if (Deno.build.os !== "windows") {
+      const { mode } = await Deno.stat(keyFile);
+      if (mode !== null && (mode & 0o077) !== 0) {
+        throw new Error(
+          `Encryption key file ${keyFile} is accessible by other users, restrict it with \`chmod 600\``,
+        );
+      }
+    }
+    return await Deno.readTextFile(keyFile);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  const key = btoa(
+    String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))),
+  );
+  await Deno.mkdir(dirname(keyFile), { recursive: true, mode: 0o700 });
+  try {
+    await Deno.writeTextFile(keyFile, key + "\n", {
+      createNew: true,
+      mode: STORAGE_FILE_MODE,
+    });
+    return key;
+  } catch (error) {
+    // Another process created it first
+    if (!(error instanceof Deno.errors.AlreadyExists)) throw error;
+    return await readEncryptionKeyFile(keyFile);
+  }
+}
+
+/**
+ * Returns the AES-GCM key to encrypt stored data with, or `undefined` to
+ * store it unencrypted. The key is taken from the first of:
+ *
+ * - `key`, a `CryptoKey` or 32 bytes encoded as base64
+ * - the file `keyFile`, created with a new random key and the
+ *   {@linkcode STORAGE_FILE_MODE} if it doesn't exist
+ * - the {@linkcode ENCRYPTION_KEY_ENV_VAR} environment variable
+ * - the file named by the {@linkcode ENCRYPTION_KEY_FILE_ENV_VAR} environment
+ *   variable
+ *
+ * Key files that other users can access are rejected on Unix.
+ */
+export async function getEncryptionKey(
+  key?: CryptoKey | string,
+  keyFile?: string,
+): Promise<CryptoKey | undefined> {
+  if (key instanceof CryptoKey) return key;
+  if (key !== undefined) return await importEncryptionKey(key);
+  if (keyFile !== undefined) {
+    return await importEncryptionKey(await readEncryptionKeyFile(keyFile));
+  }
+  const envKey = Deno.env.get(ENCRYPTION_KEY_ENV_VAR);
+  if (envKey) return await importEncryptionKey(envKey);
+  const envKeyFile = Deno.env.get(ENCRYPTION_KEY_FILE_ENV_VAR);
+  if (envKeyFile) {
+    return await importEncryptionKey(await readEncryptionKeyFile(envKeyFile));
+  }
+  return undefined;
+}
+
+/**
+ * Moves data stored under a previous location (a file or a directory) to
+ * `newPath`, unless `newPath` already exists. Missing parent directories of
+ * `newPath` are created.
  *
- * This function uses heuristics to try to guess if the code is running in a compiled
- * standalone executable rather than the standard Deno runtime:
- * 1. Checks if the main module path includes "deno-compile"
- * 2. Tests if accessing localStorage results in an error (which happens in compiled executables)
+ * This runs every time a store is opened but only does something the first
+ * time. When several processes race, one wins and the others find nothing
+ * left to move.
+ */
+export async function moveLegacyStorage(
+  legacyPath: string,
+  newPath: string,
+): Promise<void> {
+  if (legacyPath === newPath || await exists(newPath)) return;
+  try {
+    await ensureDir(dirname(newPath));
+    await Deno.rename(legacyPath, newPath);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return;
+    // Renaming fails across file systems, e.g. when the cache dir is a tmpfs
+    try {
+      await copy(legacyPath, newPath);
+    } catch (copyError) {
+      // Another process moved it first
+      if (
+        copyError instanceof Deno.errors.NotFound ||
+        copyError instanceof Deno.errors.AlreadyExists
+      ) return;
+      throw error;
+    }
+    await Deno.remove(legacyPath, { recursive: true });
+  }
+}
+
+/**
+ * Mode of the files the polyfills create: they may hold secrets like tokens,
+ * so only the user can read them. Windows has no file modes, files there
+ * inherit the permissions of the user's profile directory.
+ */
+export const STORAGE_FILE_MODE = 0o600;
+
+/**
+ * Gives the file at `filePath` the {@linkcode STORAGE_FILE_MODE}.
+ */
+export async function restrictFileMode(filePath: string): Promise<void> {
+  if (Deno.build.os !== "windows") {
+    await Deno.chmod(filePath, STORAGE_FILE_MODE);
+  }
+}
+
+/**
+ * Writes a file atomically, with the {@linkcode STORAGE_FILE_MODE}.
  *
- * @example
+ * The data is written and flushed to a temporary file in the same directory,
+ * which is then renamed over `filePath`. A process killed halfway through
+ * leaves either the old or the new content, never a truncated file.
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  data: Uint8Array,
+): Promise<void> {
+  const tempPath = await Deno.makeTempFile({
+    dir: dirname(filePath),
+    prefix: `${basename(filePath)}.`,
+    suffix: ".tmp",
+  });
+  try {
+    await restrictFileMode(tempPath);
+    const file = await Deno.open(tempPath, { write: true, truncate: true });
+    try {
+      for (let written = 0; written < data.length;) {
+        written += await file.write(data.subarray(written));
+      }
+      await file.sync();
+    } finally {
+      file.close();
+    }
+    await Deno.rename(tempPath, filePath);
+  } catch (error) {
+    await Deno.remove(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Synchronous version of {@linkcode writeFileAtomic}.
+ */
+export function writeFileAtomicSync(filePath: string, data: Uint8Array): void {
+  const tempPath = Deno.makeTempFileSync({
+    dir: dirname(filePath),
+    prefix: `${basename(filePath)}.`,
+    suffix: ".tmp",
+  });
+  try {
+    if (Deno.build.os !== "windows") {
+      Deno.chmodSync(tempPath, STORAGE_FILE_MODE);
+    }
+    const file = Deno.openSync(tempPath, { write: true, truncate: true });
+    try {
+      for (let written = 0; written < data.length;) {
+        written += file.writeSync(data.subarray(written));
+      }
+      file.syncSync();
+    } finally {
+      file.close();
+    }
+    Deno.renameSync(tempPath, filePath);
+  } catch (error) {
+    try {
+      Deno.removeSync(tempPath);
+    } catch {
+      // The temp file is already gone
+    }
+    throw error;
+  }
+}
+
+/**
+ * Key under which the caches polyfill maps the storage names of caches, which
+ * are hashes of their names, back to the names.
+ */
+export const CACHE_NAMES_KEY = "cache-names.index";
+
+/**
+ * Reads and parses the JSON value stored under `key`, recovering from a
+ * corrupt one.
  *
- * if (isStandaloneDenoExe()) {
- *   console.log("Running as a standalone executable");
- * } else {
- *   console.log("Running in normal Deno runtime");
- * }
- */
-export function isStandaloneDenoExe(): boolean {
-  // heuristics
-  return (
-    import.meta.url.includes("deno-compile") &&
-    // accessing localStorage in the compiled binary result in an error
-    try_(() => localStorage.length).isErr()
+ * Returns `undefined` when there is no value. When it can't be parsed (e.g. a
+ * file truncated by an older version killed mid-write), it is moved aside to
+ * `<key>.corrupt` for inspection and `undefined` is returned, so the caller can
+ * continue with an empty store.
+ */
+export async function readJsonOrRecover<T>(
+  backend: StorageBackend,
+  key: string,
+): Promise<T | undefined> {
+  const bytes = await backend.get(key);
+  if (bytes === undefined) return undefined;
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    const backupKey = `${key}.corrupt`;
+    await renameKey(backend, key, backupKey).catch((error) => {
+      // Another process moved it first
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    });
+    console.warn(
+      `Could not parse ${key}, moved it to ${backupKey} and starting empty:`,
+      error,
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Parses a stored JSON value, treating a missing or corrupt one as `undefined`.
+ */
+export function parseJson<T>(bytes: Uint8Array | undefined): T | undefined {
+  if (bytes === undefined) return undefined;
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Moves the value of `from` to `to`, with the backend's `rename` when it has
+ * one.
+ */
+export async function renameKey(
+  backend: StorageBackend,
+  from: string,
+  to: string,
+): Promise<void> {
+  if (backend.rename) return await backend.rename(from, to);
+  const value = await backend.get(from);
+  if (value === undefined) throw new Deno.errors.NotFound(`No key "${from}"`);
+  await backend.set(to, value);
+  await backend.delete(from);
+}
+
+/**
+ * Streams the value of `key`, with the backend's `readStream` when it has one.
+ */
+export async function readStream(
+  backend: StorageBackend,
+  key: string,
+): Promise<ReadableStream<Uint8Array> | undefined> {
+  if (backend.readStream) return await backend.readStream(key);
+  const value = await backend.get(key);
+  return value === undefined ? undefined : ReadableStream.from([value]);
+}
+
+/**
+ * Stores the content of `stream` under `key`, with the backend's `writeStream`
+ * when it has one. Otherwise the content is collected in memory first.
+ */
+export async function writeStream(
+  backend: StorageBackend,
+  key: string,
+  stream: ReadableStream<Uint8Array>,
+): Promise<void> {
+  if (backend.writeStream) return await backend.writeStream(key, stream);
+  await backend.set(
+    key,
+    new Uint8Array(await new Response(stream).arrayBuffer()),
   );
 }
 
 /**
- * Executes a function and returns either the successful result or an error.
+ * Runs `fn` while holding an exclusive lock on `<filePath>.lock`.
  *
- * @template T The return type of the function.
- * @param {() => T} fn The function to execute.
- * @returns {{ isErr: () => boolean, ok?: T, err?: any }} An object containing either the result or the error.
+ * This serializes read-modify-write cycles on `filePath` between processes
+ * (and between concurrent calls in the same process). The lock file is left in
+ * place afterwards, as removing it would race with processes waiting on it.
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const lockFile = await Deno.open(`${filePath}.lock`, {
+    create: true,
+    write: true,
+    mode: STORAGE_FILE_MODE,
+  });
+  try {
+    await lockFile.lock(true);
+    return await fn();
+  } finally {
+    lockFile.close(); // Closing the file releases the lock
+  }
+}
+
+/**
+ * Synchronous version of {@linkcode withFileLock}.
+ */
+export function withFileLockSync<T>(filePath: string, fn: () => T): T {
+  const lockFile = Deno.openSync(`${filePath}.lock`, {
+    create: true,
+    write: true,
+    mode: STORAGE_FILE_MODE,
+  });
+  try {
+    lockFile.lockSync(true);
+    return fn();
+  } finally {
+    lockFile.close(); // Closing the file releases the lock
+  }
+}
+
+/** Whether a polyfill is installed, and why. */
+export interface PolyfillStatus {
+  /** Whether the polyfill replaced the native global. */
+  active: boolean;
+  /**
+   * `"forced"` when the options decided, e.g. `force`, `"native-broken"` or
+   * `"native-works"` when probing the native global did, and `"not-set-up"`
+   * before the setup ran.
+   */
+  reason: "forced" | "native-broken" | "native-works" | "not-set-up";
+  /** What the native global threw when probed, with `"native-broken"`. */
+  error?: unknown;
+}
+
+/** The globals the polyfills replace. */
+export type PolyfillName = "localStorage" | "sessionStorage" | "caches";
+
+// What the last setup of each polyfill decided, and where it stores its data
+const polyfillStatuses = new Map<PolyfillName, PolyfillStatus>();
+const polyfillStorageDirs = new Map<PolyfillName, string | null>();
+
+/**
+ * Storage dir recorded for a polyfill that uses a `backend` option, whose
+ * location it doesn't know.
+ */
+export const CUSTOM_BACKEND_STORAGE = "custom backend";
+
+/** Returns what the last setup of the polyfill of `name` decided. */
+export function getPolyfillStatus(name: PolyfillName): PolyfillStatus {
+  return {
+    ...(polyfillStatuses.get(name) ?? { active: false, reason: "not-set-up" }),
+  };
+}
+
+/**
+ * Returns the directory the last setup of the polyfill of `name` stores its
+ * files in, {@linkcode CUSTOM_BACKEND_STORAGE}, or `null` when it stores none.
+ */
+export function getPolyfillStorageDir(name: PolyfillName): string | null {
+  return polyfillStorageDirs.get(name) ?? null;
+}
+
+/**
+ * Records what a setup of the polyfill of `name` decided, and the directory
+ * it resolved for its files, if any.
+ */
+export function setPolyfillStatus(
+  name: PolyfillName,
+  status: PolyfillStatus,
+  storageDir: string | null = null,
+): void {
+  polyfillStatuses.set(name, status);
+  polyfillStorageDirs.set(name, storageDir);
+}
+
+/**
+ * Reads a global through the property descriptor captured before any polyfill
+ * replaced it, throwing like a missing global would.
+ */
+export function readNativeGlobal(
+  name: string,
+  descriptor: PropertyDescriptor | undefined,
+): unknown {
+  if (descriptor === undefined) {
+    throw new ReferenceError(`${name} is not defined`);
+  }
+  return descriptor.get ? descriptor.get.call(globalThis) : descriptor.value;
+}
+
+/**
+ * Decides whether to install a polyfill. `force` picks a side, otherwise the
+ * polyfill is installed only when probing the native global throws or rejects.
  */
-function try_<T>(fn: () => T) {
+export async function choosePolyfill(
+  force: boolean | undefined,
+  probe: () => unknown,
+): Promise<PolyfillStatus> {
+  if (force !== undefined) return { active: force, reason: "forced" };
   try {
-    const ok = fn();
-    return { isErr: () => false, ok };
+    await probe();
+    return { active: false, reason: "native-works" };
   } catch (error) {
-    return { isErr: () => true, err: error };
+    return { active: true, reason: "native-broken", error };
   }
 }